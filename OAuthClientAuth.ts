@@ -0,0 +1,177 @@
+/**
+ * Client authentication at the token and revocation endpoints
+ * - client_secret_basic and client_secret_post (RFC 6749 section 2.3.1)
+ * - none - public clients, which rely on PKCE
+ * - private_key_jwt and client_secret_jwt assertions (RFC 7523 section 2.2, OpenID Connect Core section 9)
+ */
+
+import * as crypto from 'crypto';
+import type { OAuthClient, OAuthCredentials } from './OAuthTokenManager.js';
+import { OAuthCredentialsError, type CredentialsFieldError } from './OAuthError.js';
+
+export type ClientAuthMethod = 'client_secret_basic' | 'client_secret_post' | 'none' | 'private_key_jwt' | 'client_secret_jwt';
+
+/**
+ * What a request needs to authenticate the client - an OAuthClient has it all
+ */
+export type ClientAuthentication = Pick<OAuthClient, 'clientId' | 'clientSecret' | 'tokenUri' | 'authMethod' | 'privateKey' | 'privateKeyId'>;
+
+/**
+ * The credentials fields that describe client authentication
+ */
+export type ClientAuthCredentials = Pick<OAuthCredentials, 'client_id' | 'client_secret' | 'token_uri' | 'token_endpoint_auth_method' | 'private_key' | 'private_key_id'>;
+
+const AUTH_METHODS: ClientAuthMethod[] = ['client_secret_basic', 'client_secret_post', 'none', 'private_key_jwt', 'client_secret_jwt'];
+const ASSERTION_LIFETIME_SECONDS = 300;
+
+/**
+ * The method a client uses - the configured one, else the secret in the form body as this
+ * library always did, or none for a client without a secret
+ */
+export function clientAuthMethod(client: ClientAuthentication): ClientAuthMethod {
+    return client.authMethod || (client.clientSecret ? 'client_secret_post' : 'none');
+}
+
+/**
+ * Build an OAuthClient from credentials
+ */
+export function clientFromCredentials(credentials: ClientAuthCredentials & Pick<OAuthCredentials, 'revocation_uri'>): OAuthClient {
+    return {
+        clientId: credentials.client_id,
+        clientSecret: credentials.client_secret,
+        tokenUri: credentials.token_uri,
+        revocationUri: credentials.revocation_uri,
+        authMethod: credentials.token_endpoint_auth_method,
+        privateKey: credentials.private_key,
+        privateKeyId: credentials.private_key_id
+    };
+}
+
+/**
+ * What the client lacks for its method, by credentials field - empty when it can authenticate
+ */
+export function clientAuthenticationProblems(client: ClientAuthentication): CredentialsFieldError[] {
+    const method = clientAuthMethod(client);
+    if (!AUTH_METHODS.includes(method)) {
+        return [{ field: 'token_endpoint_auth_method', problem: `is not one of ${AUTH_METHODS.join(', ')}` }];
+    }
+    if ((method === 'client_secret_basic' || method === 'client_secret_post' || method === 'client_secret_jwt') && !client.clientSecret) {
+        return [{ field: 'client_secret', problem: `is required by ${method}` }];
+    }
+    if (method === 'private_key_jwt' && !client.privateKey) {
+        return [{ field: 'private_key', problem: 'is required by private_key_jwt' }];
+    }
+    return [];
+}
+
+/**
+ * Check that the client has what its method needs - throws OAuthCredentialsError naming the missing field
+ */
+export function checkClientAuthentication(client: ClientAuthentication): void {
+    const problems = clientAuthenticationProblems(client);
+    if (problems.length > 0) {
+        throw OAuthCredentialsError.forFields(problems);
+    }
+}
+
+/**
+ * JWS algorithm and signing parameters for a private key - RSA, EC P-256/384/521 or Ed25519
+ */
+function signingAlgorithm(key: crypto.KeyObject): { alg: string; digest: string | null; dsaEncoding?: 'ieee-p1363' } {
+    switch (key.asymmetricKeyType) {
+        case 'rsa':
+            return { alg: 'RS256', digest: 'sha256' };
+        case 'ec': {
+            // JWS wants the raw r||s signature, not DER
+            const curves: Record<string, { alg: string; digest: string }> = {
+                prime256v1: { alg: 'ES256', digest: 'sha256' },
+                secp384r1: { alg: 'ES384', digest: 'sha384' },
+                secp521r1: { alg: 'ES512', digest: 'sha512' }
+            };
+            const curve = curves[key.asymmetricKeyDetails?.namedCurve];
+            if (curve) {
+                return { ...curve, dsaEncoding: 'ieee-p1363' };
+            }
+            break;
+        }
+        case 'ed25519':
+            return { alg: 'EdDSA', digest: null };
+    }
+    throw new OAuthCredentialsError(`Unsupported private_key type for private_key_jwt: ${key.asymmetricKeyType}`);
+}
+
+/**
+ * Create a client assertion - a short-lived JWT about the client, for the token endpoint (RFC 7523 section 3)
+ */
+function createClientAssertion(client: ClientAuthentication, method: 'private_key_jwt' | 'client_secret_jwt'): string {
+    const now = Math.floor(Date.now() / 1000);
+    const claims = {
+        iss: client.clientId,
+        sub: client.clientId,
+        aud: client.tokenUri,
+        jti: crypto.randomUUID(),  // Servers may refuse a replayed assertion - each request gets its own
+        iat: now,
+        exp: now + ASSERTION_LIFETIME_SECONDS
+    };
+    const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+
+    if (method === 'client_secret_jwt') {
+        const signingInput = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+        return `${signingInput}.${crypto.createHmac('sha256', client.clientSecret).update(signingInput).digest('base64url')}`;
+    }
+
+    let key: crypto.KeyObject;
+    try {
+        key = crypto.createPrivateKey(client.privateKey);
+    } catch (error) {
+        throw new OAuthCredentialsError('private_key is not a valid PEM private key', error);
+    }
+    const { alg, digest, dsaEncoding } = signingAlgorithm(key);
+    const header: Record<string, string> = { alg, typ: 'JWT' };
+    if (client.privateKeyId) {
+        header.kid = client.privateKeyId;
+    }
+    const signingInput = `${encode(header)}.${encode(claims)}`;
+    const signature = crypto.sign(digest, Buffer.from(signingInput), { key, dsaEncoding });
+    return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Form-encode a client_id or secret for HTTP Basic, as RFC 6749 section 2.3.1 requires
+ */
+function formEncode(value: string): string {
+    return encodeURIComponent(value).replace(/%20/g, '+');
+}
+
+/**
+ * Add the client's authentication to a token or revocation request - returns the
+ * form parameters and headers to send. Call once per attempt: assertions are single-use
+ */
+export function authenticateClient(client: ClientAuthentication, params: Record<string, string>): { params: Record<string, string>; headers: Record<string, string> } {
+    checkClientAuthentication(client);
+    const method = clientAuthMethod(client);
+
+    switch (method) {
+        case 'client_secret_basic':
+            // client_id goes in the header only - servers may reject a second way of identifying the client
+            return {
+                params,
+                headers: { 'Authorization': `Basic ${Buffer.from(`${formEncode(client.clientId)}:${formEncode(client.clientSecret)}`).toString('base64')}` }
+            };
+        case 'client_secret_post':
+            return { params: { ...params, client_id: client.clientId, client_secret: client.clientSecret }, headers: {} };
+        case 'private_key_jwt':
+        case 'client_secret_jwt':
+            return {
+                params: {
+                    ...params,
+                    client_id: client.clientId,
+                    client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+                    client_assertion: createClientAssertion(client, method)
+                },
+                headers: {}
+            };
+        default:
+            return { params: { ...params, client_id: client.clientId }, headers: {} };
+    }
+}
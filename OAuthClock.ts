@@ -0,0 +1,25 @@
+/**
+ * Time for the OAuth library's expiry decisions
+ * The system clock by default - pass a fake one to test expiry deterministically. A local clock
+ * that is off is corrected by the token server's Date header, so expiry follows the server's clock
+ */
+
+export interface OAuthClock {
+    now(): number;  // Milliseconds since the epoch, like Date.now()
+}
+
+export const systemClock: OAuthClock = {
+    now: () => Date.now()
+};
+
+// Smaller differences are the Date header's one-second resolution and network time, not skew
+const MIN_CLOCK_SKEW_MS = 2000;
+
+/**
+ * How far the server's clock is ahead of ours in milliseconds (negative: behind) - 0 when the
+ * difference is too small to tell from a Date header
+ */
+export function clockSkew(serverTime: number, localTime: number): number {
+    const skew = serverTime - localTime;
+    return Math.abs(skew) < MIN_CLOCK_SKEW_MS ? 0 : Math.round(skew);
+}
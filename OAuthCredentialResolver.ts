@@ -0,0 +1,259 @@
+/**
+ * Credential resolver
+ * One place that turns every supported credentials source - files, JSON strings, environment
+ * variables, Google, Azure and GitHub exports, provider presets, issuers - into checked OAuthCredentials
+ */
+
+import * as fs from 'fs';
+import type { OAuthCredentials } from './OAuthTokenManager.js';
+import { OAuthCredentialsError, type CredentialsFieldError } from './OAuthError.js';
+import { clientAuthenticationProblems, clientFromCredentials } from './OAuthClientAuth.js';
+import { credentialsFromIssuer, isIssuerCredentials, type IssuerCredentials } from './OAuthDiscovery.js';
+import { credentialsForProvider, isProviderCredentials, type ProviderCredentials } from './OAuthProviders.js';
+import { silentLogger, type OAuthLogger } from './OAuthLogger.js';
+
+/**
+ * Grant the credentials will be used for - decides which endpoints are required
+ */
+export type CredentialsFlow = 'browser' | 'device' | 'client_credentials';
+
+/**
+ * A file path, a JSON string, 'env:' or 'env:PREFIX_' for environment variables, or a parsed document
+ */
+export type CredentialsSource = string | OAuthCredentials | IssuerCredentials | ProviderCredentials | object;
+
+export interface ResolveCredentialsOptions {
+    credentialsKey?: string;  /** Key the credentials are nested under, e.g. Google's 'installed' */
+    flow?: CredentialsFlow;  /** Also require the flow's endpoint - auth_uri for browser, device_authorization_uri for device */
+    env?: NodeJS.ProcessEnv;  /** Environment for 'env:' sources (default: process.env) */
+    signal?: AbortSignal;  /** Cancels discovery */
+    logger?: OAuthLogger;
+}
+
+// Fields read from the environment as PREFIX + the field name in upper case, e.g. OAUTH_TOKEN_URI
+const ENV_FIELDS = [
+    'client_id', 'client_secret', 'auth_uri', 'token_uri', 'redirect_uris', 'device_authorization_uri', 'revocation_uri',
+    'userinfo_uri', 'issuer', 'jwks_uri', 'provider', 'tenant', 'base_url', 'token_endpoint_auth_method', 'private_key', 'private_key_id'
+];
+const URL_FIELDS = ['auth_uri', 'token_uri', 'device_authorization_uri', 'revocation_uri', 'userinfo_uri', 'jwks_uri', 'issuer'];
+
+// Azure signInAudience values that map to a tenant-independent endpoint
+const AZURE_AUDIENCE_TENANTS: Record<string, string> = {
+    AzureADMultipleOrgs: 'organizations',
+    AzureADandPersonalMicrosoftAccount: 'common',
+    PersonalMicrosoftAccount: 'consumers'
+};
+
+/**
+ * Read credentials from environment variables - PREFIX_CLIENT_ID, PREFIX_TOKEN_URI and so on, with
+ * PREFIX_REDIRECT_URIS space or comma separated. With the default OAUTH_ prefix, the Azure SDK's
+ * AZURE_CLIENT_ID, AZURE_CLIENT_SECRET and AZURE_TENANT_ID are used when OAUTH_CLIENT_ID is unset
+ */
+export function credentialsFromEnv(env: NodeJS.ProcessEnv = process.env, prefix: string = 'OAUTH_'): Record<string, any> {
+    const document: Record<string, any> = {};
+    for (const field of ENV_FIELDS) {
+        const value = env[`${prefix}${field.toUpperCase()}`];
+        if (value !== undefined && value !== '') {
+            document[field] = field === 'redirect_uris' ? value.split(/[\s,]+/).filter(Boolean) : value;
+        }
+    }
+
+    if (!document.client_id && prefix === 'OAUTH_' && env.AZURE_CLIENT_ID) {
+        return {
+            provider: 'microsoft',
+            client_id: env.AZURE_CLIENT_ID,
+            client_secret: env.AZURE_CLIENT_SECRET,
+            tenant: env.AZURE_TENANT_ID,
+            redirect_uris: document.redirect_uris
+        };
+    }
+    if (!document.client_id) {
+        throw OAuthCredentialsError.forFields([{ field: 'client_id', problem: `is missing - set ${prefix}CLIENT_ID` }]);
+    }
+    return document;
+}
+
+/**
+ * Read a source into a JSON document - never echoes its content, which holds the client secret
+ */
+function readSource(source: CredentialsSource, env: NodeJS.ProcessEnv): any {
+    if (typeof source !== 'string') {
+        return source;
+    }
+    if (source.startsWith('env:')) {
+        return credentialsFromEnv(env, source.slice('env:'.length) || 'OAUTH_');
+    }
+    if (source.trim().startsWith('{')) {
+        try {
+            return JSON.parse(source);
+        } catch (error) {
+            throw new OAuthCredentialsError('Credentials string is not valid JSON', error);
+        }
+    }
+
+    if (!fs.existsSync(source)) {
+        throw new OAuthCredentialsError(`Credentials file not found: ${source}`);
+    }
+    try {
+        return JSON.parse(fs.readFileSync(source, 'utf8'));
+    } catch (error) {
+        throw new OAuthCredentialsError(`Credentials file is not valid JSON: ${source}`, error);
+    }
+}
+
+/**
+ * Credentials from an Azure app registration - the application manifest or object,
+ * or the output of 'az ad sp create-for-rbac'
+ */
+function credentialsFromAzure(app: Record<string, any>): ProviderCredentials {
+    const redirectUris: string[] = [
+        ...(app.publicClient?.redirectUris || []),
+        ...(app.web?.redirectUris || []),
+        ...(app.replyUrlsWithType || []).map((reply: { url: string }) => reply.url)
+    ];
+    return {
+        provider: 'microsoft',
+        client_id: app.appId,
+        client_secret: app.password || app.clientSecret,
+        tenant: app.tenant || app.tenantId || AZURE_AUDIENCE_TENANTS[app.signInAudience],
+        redirect_uris: redirectUris.filter(uri => typeof uri === 'string')
+    };
+}
+
+/**
+ * Unwrap and translate a parsed document into credentials - discovery still pending for issuer credentials.
+ * Recognizes, in order: credentialsKey, Azure app registrations, Google's "installed"/"web" wrapper,
+ * GitHub App manifest conversions, then provider presets - a credentialsKey the document lacks falls
+ * through to the others
+ */
+export function credentialsFromDocument(document: any, credentialsKey?: string): OAuthCredentials | IssuerCredentials {
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+        throw OAuthCredentialsError.forFields([{ field: '(document)', problem: 'is not a JSON object' }]);
+    }
+
+    let credentials = document;
+    if (credentialsKey && document[credentialsKey] && typeof document[credentialsKey] === 'object') {
+        credentials = document[credentialsKey];
+    } else if (typeof document.appId === 'string') {
+        credentials = credentialsFromAzure(document);
+    } else if (document.installed?.client_id) {
+        credentials = document.installed;
+    } else if (document.web?.client_id) {
+        credentials = document.web;
+    } else if (typeof document.slug === 'string' && 'pem' in document && document.client_id) {
+        // A GitHub App's manifest conversion response - the OAuth side is a GitHub OAuth client
+        credentials = { provider: 'github', client_id: document.client_id, client_secret: document.client_secret };
+    }
+    if (credentialsKey && credentials === document && !document.client_id) {
+        // A wrong key is forgiven while the document is recognizable anyway, e.g. 'installed' for a "web" file
+        throw OAuthCredentialsError.forFields([{ field: credentialsKey, problem: 'is missing - the credentials key was not found' }]);
+    }
+
+    return isProviderCredentials(credentials) ? credentialsForProvider(credentials) : credentials;
+}
+
+/**
+ * Every problem with the credentials, by field - empty when they are usable for the flow
+ */
+export function validateCredentials(credentials: any, flow?: CredentialsFlow): CredentialsFieldError[] {
+    if (!credentials || typeof credentials !== 'object' || Array.isArray(credentials)) {
+        return [{ field: '(credentials)', problem: 'is not a JSON object' }];
+    }
+
+    const problems: CredentialsFieldError[] = [];
+    if (typeof credentials.client_id !== 'string' || !credentials.client_id.trim()) {
+        problems.push({ field: 'client_id', problem: credentials.client_id === undefined ? 'is missing' : 'must be a non-empty string' });
+    }
+    if (credentials.client_secret !== undefined && typeof credentials.client_secret !== 'string') {
+        problems.push({ field: 'client_secret', problem: 'must be a string' });
+    }
+
+    const required = ['token_uri', ...(flow === 'browser' ? ['auth_uri'] : []), ...(flow === 'device' ? ['device_authorization_uri'] : [])];
+    for (const field of URL_FIELDS) {
+        const value = credentials[field];
+        if (value === undefined || value === '') {
+            if (required.includes(field)) {
+                problems.push({ field, problem: field === 'token_uri' ? 'is missing' : `is missing - the ${flow} flow needs it` });
+            }
+        } else if (!isHttpUrl(value)) {
+            problems.push({ field, problem: 'is not an http(s) URL' });
+        }
+    }
+
+    const redirectUris = credentials.redirect_uris;
+    if (redirectUris !== undefined) {
+        if (!Array.isArray(redirectUris)) {
+            problems.push({ field: 'redirect_uris', problem: 'must be an array of URLs' });
+        } else if (redirectUris.length === 0) {
+            problems.push({ field: 'redirect_uris', problem: 'is empty - give at least one redirect URI, or omit it for http://localhost:8080' });
+        } else {
+            redirectUris.forEach((uri, index) => {
+                // Native apps may use private-use schemes (com.example.app:/callback), so any absolute URI will do
+                if (typeof uri !== 'string' || !parseUrl(uri)) {
+                    problems.push({ field: `redirect_uris[${index}]`, problem: 'is not an absolute URI' });
+                }
+            });
+        }
+    }
+
+    if (!problems.some(problem => problem.field === 'client_id' || problem.field === 'client_secret')) {
+        problems.push(...clientAuthenticationProblems(clientFromCredentials(credentials)));
+    }
+    return problems;
+}
+
+function parseUrl(value: string): URL | null {
+    try {
+        return new URL(value);
+    } catch {
+        return null;
+    }
+}
+
+function isHttpUrl(value: unknown): boolean {
+    const url = typeof value === 'string' ? parseUrl(value) : null;
+    return url?.protocol === 'https:' || url?.protocol === 'http:';
+}
+
+/**
+ * Throw OAuthCredentialsError listing every problem, if there are any
+ */
+export function checkCredentials(credentials: any, flow?: CredentialsFlow): asserts credentials is OAuthCredentials {
+    const problems = validateCredentials(credentials, flow);
+    if (problems.length > 0) {
+        throw OAuthCredentialsError.forFields(problems);
+    }
+}
+
+/**
+ * Read a source into complete, checked OAuthCredentials without network access - issuer
+ * credentials, which need discovery, are refused. Throws OAuthCredentialsError naming every bad field
+ */
+export function readOAuthCredentials(source: CredentialsSource, options: Pick<ResolveCredentialsOptions, 'credentialsKey' | 'flow' | 'env'> = {}): OAuthCredentials {
+    const credentials = credentialsFromDocument(readSource(source, options.env || process.env), options.credentialsKey);
+    if (isIssuerCredentials(credentials)) {
+        throw new OAuthCredentialsError('Credentials name an issuer, which needs discovery - use resolveOAuthCredentials');
+    }
+    checkCredentials(credentials, options.flow);
+    return credentials;
+}
+
+/**
+ * Resolve any supported source into complete, checked OAuthCredentials - discovers issuer
+ * credentials' endpoints. Throws OAuthCredentialsError naming every bad field
+ */
+export async function resolveOAuthCredentials(source: CredentialsSource, options: ResolveCredentialsOptions = {}): Promise<OAuthCredentials> {
+    let credentials = credentialsFromDocument(readSource(source, options.env || process.env), options.credentialsKey);
+
+    // { issuer, client_id, client_secret } - discover the endpoints from the issuer's metadata
+    if (isIssuerCredentials(credentials)) {
+        if (!isHttpUrl(credentials.issuer)) {
+            throw OAuthCredentialsError.forFields([{ field: 'issuer', problem: 'is not an http(s) URL' }]);
+        }
+        (options.logger || silentLogger).debug(`Discovering endpoints for ${credentials.issuer}`);
+        credentials = await credentialsFromIssuer(credentials, { signal: options.signal });
+    }
+
+    checkCredentials(credentials, options.flow);
+    return credentials;
+}
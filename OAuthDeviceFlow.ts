@@ -0,0 +1,172 @@
+/**
+ * OAuth Device Authorization Grant (RFC 8628)
+ * Gets tokens on machines without a usable browser - SSH sessions, containers, build boxes
+ */
+
+import type { OAuthCredentials, OAuthToken } from './OAuthTokenManager.js';
+import { OAuthCancelledError, OAuthCredentialsError, OAuthError, OAuthNetworkError, OAuthTimeoutError } from './OAuthError.js';
+import { postTokenRequest } from './OAuthHttp.js';
+import { clientFromCredentials } from './OAuthClientAuth.js';
+import { describeError, silentLogger, type OAuthLogger } from './OAuthLogger.js';
+import { formatScope, providerFor } from './OAuthProviders.js';
+
+export interface DeviceAuthorizationInfo {
+    userCode: string;
+    verificationUri: string;
+    verificationUriComplete?: string;  /** Verification URI with the user code embedded, when the server provides one */
+    expiresIn: number;  // Seconds until the device code expires
+}
+
+export interface OAuthDeviceFlowOptions {
+    scope: string;
+    timeoutSeconds?: number;  /** Give up polling after this long even if the device code is still valid */
+    signal?: AbortSignal;  // Allow cancellation of the device flow
+    onUserCode?: (info: DeviceAuthorizationInfo) => void;  /** Show the user code - default writes instructions to stderr */
+}
+
+interface DeviceAuthorizationResponse {
+    device_code: string;
+    user_code: string;
+    verification_uri?: string;
+    verification_url?: string;  // Google's older spelling
+    verification_uri_complete?: string;
+    expires_in: number;
+    interval?: number;
+}
+
+/**
+ * Device authorization flow for any OAuth provider that exposes a device endpoint
+ */
+export class OAuthDeviceFlow {
+    private credentials: OAuthCredentials;
+    private logger: OAuthLogger;
+
+    constructor(credentials: OAuthCredentials, logger: OAuthLogger = silentLogger) {
+        this.credentials = credentials;
+        this.logger = logger;
+    }
+
+    /**
+     * Default user code display - stderr keeps stdout clean for scripted callers
+     */
+    private static showUserCode(info: DeviceAuthorizationInfo): void {
+        console.error(`To authorize this device, visit ${info.verificationUri} and enter the code: ${info.userCode}`);
+        if (info.verificationUriComplete) {
+            console.error(`Or open: ${info.verificationUriComplete}`);
+        }
+    }
+
+    /**
+     * Wait between polls, waking early if the flow is cancelled
+     */
+    private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve) => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Request a device code and user code from the device authorization endpoint
+     */
+    private requestDeviceCode(scope: string, signal?: AbortSignal): Promise<DeviceAuthorizationResponse> {
+        // RFC 8628 section 3.1: confidential clients authenticate here too - the client_id comes with it
+        return postTokenRequest<DeviceAuthorizationResponse>(this.credentials.device_authorization_uri, {
+            scope: formatScope(scope, providerFor(this.credentials))
+        }, 'device', { clientAuth: clientFromCredentials(this.credentials), signal, logger: this.logger });
+    }
+
+    /**
+     * Get an OAuth token through the device authorization flow, or null on failure
+     */
+    async getToken(options: OAuthDeviceFlowOptions): Promise<OAuthToken | null> {
+        try {
+            return await this.getTokenOrThrow(options);
+        } catch (error) {
+            this.logger.error(`Device authorization failed: ${describeError(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * Get an OAuth token through the device authorization flow - throws OAuthError on failure
+     */
+    async getTokenOrThrow(options: OAuthDeviceFlowOptions): Promise<OAuthToken> {
+        if (!this.credentials.device_authorization_uri) {
+            throw new OAuthCredentialsError('Credentials have no device_authorization_uri - provider does not support the device flow');
+        }
+
+        const device = await this.requestDeviceCode(options.scope, options.signal);
+        this.logger.info('Waiting for the user to authorize this device');
+
+        const onUserCode = options.onUserCode || OAuthDeviceFlow.showUserCode;
+        onUserCode({
+            userCode: device.user_code,
+            verificationUri: device.verification_uri || device.verification_url,
+            verificationUriComplete: device.verification_uri_complete,
+            expiresIn: device.expires_in
+        });
+
+        // Poll until the device code expires or our own timeout, whichever comes first
+        const expiresInSeconds = Math.min(device.expires_in, options.timeoutSeconds || device.expires_in);
+        const deadline = Date.now() + expiresInSeconds * 1000;
+        let intervalSeconds = device.interval || 5;
+
+        const pollParams: Record<string, string> = {
+            grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+            device_code: device.device_code
+        };
+        const client = clientFromCredentials(this.credentials);
+
+        while (Date.now() < deadline) {
+            await this.sleep(intervalSeconds * 1000, options.signal);
+            if (options.signal?.aborted) {
+                throw new OAuthCancelledError('device');
+            }
+
+            try {
+                return await postTokenRequest(this.credentials.token_uri, pollParams, 'device', { clientAuth: client, signal: options.signal, logger: this.logger });
+            } catch (error) {
+                if (error instanceof OAuthNetworkError || error instanceof OAuthTimeoutError) {
+                    // Transient network problems should not end the flow - the next poll may succeed
+                    this.logger.warn(`Error polling for device token: ${error.message}`);
+                    continue;
+                }
+                if (!(error instanceof OAuthError)) {
+                    throw error;
+                }
+
+                switch (error.error) {
+                    case 'authorization_pending':
+                        break;
+                    case 'slow_down':
+                        // RFC 8628 section 3.5: increase the polling interval by 5 seconds
+                        intervalSeconds += 5;
+                        break;
+                    case 'expired_token':
+                        throw new OAuthTimeoutError('device', 'Device code expired before authorization completed');
+                    default:
+                        // access_denied and anything unexpected end the flow
+                        throw error;
+                }
+            }
+        }
+
+        throw new OAuthTimeoutError('device', 'Timeout waiting for device authorization');
+    }
+
+    /**
+     * Build an onAuthenticationNeeded callback for OAuthTokenManager.getValidToken
+     * With throwErrors the callback throws OAuthError instead of resolving null
+     */
+    authenticationCallback(options: OAuthDeviceFlowOptions, throwErrors: boolean = false): () => Promise<OAuthToken | null> {
+        return () => throwErrors ? this.getTokenOrThrow(options) : this.getToken(options);
+    }
+}
@@ -0,0 +1,175 @@
+/**
+ * Authorization server discovery
+ * OpenID Connect Discovery 1.0 and RFC 8414 metadata, turned into OAuthCredentials
+ */
+
+import type { OAuthCredentials } from './OAuthTokenManager.js';
+import type { ClientAuthMethod } from './OAuthClientAuth.js';
+import { OAuthError } from './OAuthError.js';
+
+/**
+ * Metadata fields this library uses - servers publish many more
+ */
+export interface AuthorizationServerMetadata {
+    issuer: string;
+    authorization_endpoint?: string;
+    token_endpoint: string;
+    revocation_endpoint?: string;
+    device_authorization_endpoint?: string;
+    userinfo_endpoint?: string;
+    jwks_uri?: string;
+    scopes_supported?: string[];
+    code_challenge_methods_supported?: string[];
+    token_endpoint_auth_methods_supported?: string[];
+    [field: string]: unknown;
+}
+
+/**
+ * Client registration plus the issuer to discover everything else from
+ */
+export interface IssuerCredentials {
+    issuer: string;
+    client_id: string;
+    client_secret?: string;
+    token_endpoint_auth_method?: ClientAuthMethod;  /** Default: client_secret_post, or client_secret_basic if the server only lists that */
+    private_key?: string;
+    private_key_id?: string;
+    redirect_uris?: string[];  /** Default: ['http://localhost:8080'] */
+}
+
+export interface DiscoveryOptions {
+    forceRefresh?: boolean;  /** Ignore cached metadata */
+    signal?: AbortSignal;
+}
+
+const METADATA_CACHE_MS = 60 * 60 * 1000;
+const metadataCache = new Map<string, { metadata: AuthorizationServerMetadata; fetchedAt: number }>();
+
+/**
+ * Issuers compare equal with or without a trailing slash
+ */
+function normalizeIssuer(issuer: string): string {
+    return issuer.replace(/\/+$/, '');
+}
+
+/**
+ * Well-known locations to try, in order:
+ * OpenID Connect appends to the issuer path, RFC 8414 inserts between host and path
+ */
+function metadataUrls(issuer: string): string[] {
+    const url = new URL(issuer);
+    const issuerPath = url.pathname.replace(/\/+$/, '');
+    return [
+        `${url.origin}${issuerPath}/.well-known/openid-configuration`,
+        `${url.origin}/.well-known/oauth-authorization-server${issuerPath}`,
+        `${url.origin}/.well-known/openid-configuration${issuerPath}`
+    ].filter((candidate, index, all) => all.indexOf(candidate) === index);
+}
+
+/**
+ * Fetch (or return cached) metadata for an issuer - throws OAuthError ('discovery' phase) on failure
+ */
+export async function discoverAuthorizationServer(issuer: string, options: DiscoveryOptions = {}): Promise<AuthorizationServerMetadata> {
+    const key = normalizeIssuer(issuer);
+    const cached = metadataCache.get(key);
+    if (cached && !options.forceRefresh && Date.now() - cached.fetchedAt < METADATA_CACHE_MS) {
+        return cached.metadata;
+    }
+
+    let candidates: string[];
+    try {
+        candidates = metadataUrls(issuer);
+    } catch (error) {
+        throw new OAuthError({ error: 'invalid_issuer', errorDescription: `Issuer is not a URL: ${issuer}`, phase: 'discovery', cause: error });
+    }
+
+    let lastError: unknown;
+    for (const metadataUrl of candidates) {
+        let metadata: AuthorizationServerMetadata;
+        try {
+            const response = await fetch(metadataUrl, { headers: { 'Accept': 'application/json' }, signal: options.signal });
+            if (!response.ok) {
+                lastError = new Error(`HTTP ${response.status} from ${metadataUrl}`);
+                continue;
+            }
+            metadata = await response.json() as AuthorizationServerMetadata;
+        } catch (error) {
+            lastError = error;
+            continue;
+        }
+
+        // RFC 8414 section 3.3 - the metadata must be about the issuer we asked for
+        if (!metadata || normalizeIssuer(String(metadata.issuer)) !== key) {
+            throw new OAuthError({
+                error: 'invalid_metadata',
+                errorDescription: `Metadata at ${metadataUrl} is for issuer ${metadata?.issuer}, expected ${issuer}`,
+                phase: 'discovery'
+            });
+        }
+        if (!metadata.token_endpoint) {
+            throw new OAuthError({
+                error: 'invalid_metadata',
+                errorDescription: `Metadata at ${metadataUrl} has no token_endpoint`,
+                phase: 'discovery'
+            });
+        }
+
+        metadataCache.set(key, { metadata, fetchedAt: Date.now() });
+        return metadata;
+    }
+
+    throw new OAuthError({
+        error: 'discovery_failed',
+        errorDescription: `No authorization server metadata found for ${issuer}`,
+        phase: 'discovery',
+        cause: lastError
+    });
+}
+
+/**
+ * Forget cached metadata - all of it, or one issuer's
+ */
+export function clearDiscoveryCache(issuer?: string): void {
+    if (issuer) {
+        metadataCache.delete(normalizeIssuer(issuer));
+    } else {
+        metadataCache.clear();
+    }
+}
+
+/**
+ * Check whether a credentials object should be completed by discovery
+ */
+export function isIssuerCredentials(data: any): data is IssuerCredentials {
+    return !!data && typeof data === 'object' && typeof data.issuer === 'string' && !!data.client_id && !data.token_uri;
+}
+
+/**
+ * Build complete OAuthCredentials from an issuer URL and a client registration
+ */
+export async function credentialsFromIssuer(config: IssuerCredentials, options: DiscoveryOptions = {}): Promise<OAuthCredentials> {
+    const metadata = await discoverAuthorizationServer(config.issuer, options);
+
+    // A server that lists client_secret_basic but not client_secret_post would reject the secret in the form body
+    let authMethod = config.token_endpoint_auth_method;
+    const supported = metadata.token_endpoint_auth_methods_supported;
+    if (!authMethod && config.client_secret && supported && !supported.includes('client_secret_post') && supported.includes('client_secret_basic')) {
+        authMethod = 'client_secret_basic';
+    }
+
+    return {
+        client_id: config.client_id,
+        client_secret: config.client_secret,
+        token_endpoint_auth_method: authMethod,
+        private_key: config.private_key,
+        private_key_id: config.private_key_id,
+        redirect_uris: config.redirect_uris?.length ? config.redirect_uris : ['http://localhost:8080'],
+        auth_uri: metadata.authorization_endpoint,
+        token_uri: metadata.token_endpoint,
+        device_authorization_uri: metadata.device_authorization_endpoint,
+        revocation_uri: metadata.revocation_endpoint,
+        userinfo_uri: metadata.userinfo_endpoint,
+        issuer: metadata.issuer,
+        jwks_uri: metadata.jwks_uri
+    };
+}
@@ -0,0 +1,156 @@
+/**
+ * Typed OAuth errors
+ * Carry the RFC 6749 error fields, the HTTP status and the phase of the flow that failed
+ */
+
+export type OAuthErrorPhase =
+    | 'credentials'     // Loading or validating client credentials
+    | 'discovery'       // Fetching authorization server metadata (OIDC Discovery, RFC 8414)
+    | 'authorize'       // Building the authorization request, starting the loopback server
+    | 'callback'        // Waiting for and checking the authorization response
+    | 'code_exchange'   // Exchanging the authorization code for tokens
+    | 'refresh'         // Refreshing with a refresh token
+    | 'device'          // Device authorization and polling (RFC 8628)
+    | 'token_request'   // Non-interactive grants - client_credentials, JWT-bearer
+    | 'revoke'          // Token revocation (RFC 7009)
+    | 'resource';       // Calling an API with the token (RFC 6750)
+
+export interface OAuthErrorDetails {
+    error: string;  // RFC 6749 error code, or one of this library's codes such as 'network_error'
+    errorDescription?: string;
+    errorUri?: string;
+    status?: number;  // HTTP status of the failed response
+    phase: OAuthErrorPhase;
+    cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the ...OrThrow APIs
+ */
+export class OAuthError extends Error {
+    readonly error: string;
+    readonly errorDescription?: string;
+    readonly errorUri?: string;
+    readonly status?: number;
+    readonly phase: OAuthErrorPhase;
+
+    constructor(details: OAuthErrorDetails) {
+        super(details.errorDescription ? `${details.error}: ${details.errorDescription}` : details.error, { cause: details.cause });
+        this.name = new.target.name;
+        this.error = details.error;
+        this.errorDescription = details.errorDescription;
+        this.errorUri = details.errorUri;
+        this.status = details.status;
+        this.phase = details.phase;
+    }
+
+    /**
+     * Build the most specific error for an RFC 6749 error response body
+     * or authorization callback query (which has no status)
+     */
+    static fromResponse(body: Record<string, any>, status: number | undefined, phase: OAuthErrorPhase): OAuthError {
+        const details: OAuthErrorDetails = {
+            error: typeof body?.error === 'string' ? body.error : 'server_error',
+            errorDescription: body?.error_description,
+            errorUri: body?.error_uri,
+            status,
+            phase
+        };
+
+        switch (details.error) {
+            case 'invalid_grant':
+                return new OAuthInvalidGrantError(details);
+            case 'access_denied':
+                return new OAuthAccessDeniedError(details);
+            default:
+                return new OAuthError(details);
+        }
+    }
+}
+
+/**
+ * The refresh token, authorization code or device code was rejected - revoked, expired or already used.
+ * Only a new authorization can recover
+ */
+export class OAuthInvalidGrantError extends OAuthError {}
+
+/**
+ * The user or the authorization server refused the request
+ */
+export class OAuthAccessDeniedError extends OAuthError {}
+
+/**
+ * The provider could not be reached - DNS, connection or TLS failure. Retrying later may succeed
+ */
+export class OAuthNetworkError extends OAuthError {
+    constructor(phase: OAuthErrorPhase, cause: unknown) {
+        super({ error: 'network_error', errorDescription: cause instanceof Error ? cause.message : String(cause), phase, cause });
+    }
+}
+
+/**
+ * The flow did not complete in the allowed time
+ */
+export class OAuthTimeoutError extends OAuthError {
+    constructor(phase: OAuthErrorPhase, errorDescription: string = 'Timed out') {
+        super({ error: 'timeout', errorDescription, phase });
+    }
+}
+
+/**
+ * The caller aborted the flow through its AbortSignal
+ */
+export class OAuthCancelledError extends OAuthError {
+    constructor(phase: OAuthErrorPhase) {
+        super({ error: 'cancelled', errorDescription: 'Cancelled by caller', phase });
+    }
+}
+
+/**
+ * One problem with one credentials field
+ */
+export interface CredentialsFieldError {
+    field: string;  // e.g. 'token_uri' or 'redirect_uris[1]'
+    problem: string;  // e.g. 'is missing' or 'is not an http(s) URL'
+}
+
+/**
+ * Client credentials are missing, unreadable or malformed - fields lists each bad field when known
+ */
+export class OAuthCredentialsError extends OAuthError {
+    readonly fields: CredentialsFieldError[];
+
+    constructor(errorDescription: string, cause?: unknown, fields: CredentialsFieldError[] = []) {
+        super({ error: 'invalid_credentials', errorDescription, phase: 'credentials', cause });
+        this.fields = fields;
+    }
+
+    /**
+     * One error describing every field problem found
+     */
+    static forFields(fields: CredentialsFieldError[]): OAuthCredentialsError {
+        return new OAuthCredentialsError(`Invalid credentials - ${fields.map(field => `${field.field} ${field.problem}`).join('; ')}`, undefined, fields);
+    }
+}
+
+/**
+ * No usable token is stored and no way to authenticate was provided
+ */
+export class OAuthAuthenticationRequiredError extends OAuthError {
+    constructor(phase: OAuthErrorPhase, errorDescription: string = 'Authentication required') {
+        super({ error: 'authentication_required', errorDescription, phase });
+    }
+}
+
+/**
+ * The API refused the token because it lacks a scope (RFC 6750 insufficient_scope).
+ * Refreshing does not help - authorize again with the scope in requiredScope
+ */
+export class OAuthInsufficientScopeError extends OAuthError {
+    readonly requiredScope?: string;
+
+    constructor(details: Omit<OAuthErrorDetails, 'error' | 'phase'>, requiredScope?: string) {
+        super({ ...details, error: 'insufficient_scope', phase: 'resource' });
+        this.requiredScope = requiredScope;
+    }
+}
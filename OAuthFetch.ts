@@ -0,0 +1,82 @@
+/**
+ * Authorized fetch
+ * A fetch that adds the bearer token, and refreshes and retries once when the API rejects it (RFC 6750)
+ */
+
+import type { OAuthClient, OAuthToken, OAuthTokenManager } from './OAuthTokenManager.js';
+import { OAuthAuthenticationRequiredError, OAuthInsufficientScopeError } from './OAuthError.js';
+import { silentLogger, type OAuthLogger } from './OAuthLogger.js';
+
+export type AuthorizedFetch = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+export interface AuthorizedFetchOptions {
+    onAuthenticationNeeded?: () => Promise<OAuthToken | null>;  /** Passed to getValidTokenOrThrow when no valid token is stored */
+    fetch?: typeof fetch;  /** Underlying fetch (default: globalThis.fetch) */
+    logger?: OAuthLogger;
+}
+
+/**
+ * Parameters of the Bearer challenge in a WWW-Authenticate header, or null without one
+ */
+export function parseBearerChallenge(header: string | null): Record<string, string> | null {
+    const match = header?.match(/(?:^|,)\s*Bearer\b(.*)$/i);
+    if (!match) {
+        return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (const [, name, quoted, token] of match[1].matchAll(/([\w-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g)) {
+        params[name.toLowerCase()] = quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : token;
+    }
+    return params;
+}
+
+/**
+ * Create a fetch-compatible function that authorizes every request with the manager's token.
+ * On 401 invalid_token it refreshes once - shared by all concurrent requests - and retries.
+ * On 403 insufficient_scope it throws OAuthInsufficientScopeError; other responses are returned as-is
+ */
+export function createAuthorizedFetch(manager: OAuthTokenManager, client: OAuthClient, options: AuthorizedFetchOptions = {}): AuthorizedFetch {
+    const baseFetch = options.fetch || globalThis.fetch;
+    const logger = options.logger || silentLogger;
+
+    const send = (input: string | URL | Request, init: RequestInit | undefined, token: OAuthToken) => {
+        const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+        headers.set('Authorization', `Bearer ${token.access_token}`);
+        return baseFetch(input, { ...init, headers });
+    };
+
+    return async (input, init) => {
+        // A Request body can only be read once - keep a copy for the retry
+        const retryInput = input instanceof Request ? input.clone() : input;
+        const token = await manager.getValidTokenOrThrow(client, options.onAuthenticationNeeded);
+        let response = await send(input, init, token);
+
+        let challenge = parseBearerChallenge(response.headers.get('WWW-Authenticate'));
+        if (response.status === 401 && challenge?.error === 'invalid_token') {
+            logger.info('Access token rejected by the API - refreshing and retrying');
+            let refreshedToken: OAuthToken;
+            try {
+                refreshedToken = await manager.forceRefreshOrThrow(client, token.access_token);
+            } catch (error) {
+                if (error instanceof OAuthAuthenticationRequiredError) {
+                    // Nothing to refresh with - let the caller see the 401
+                    return response;
+                }
+                throw error;
+            }
+            await response.body?.cancel();
+            response = await send(retryInput, init, refreshedToken);
+            challenge = parseBearerChallenge(response.headers.get('WWW-Authenticate'));
+        }
+
+        if (challenge?.error === 'insufficient_scope') {
+            throw new OAuthInsufficientScopeError({
+                errorDescription: challenge.error_description,
+                errorUri: challenge.error_uri,
+                status: response.status
+            }, challenge.scope);
+        }
+        return response;
+    };
+}
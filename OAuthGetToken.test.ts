@@ -0,0 +1,261 @@
+/**
+ * OAuthGetToken's authorization code flow end to end - the mock authorization server, the
+ * loopback redirect server and a headless browser standing in for the user
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { OAuthGetToken, type OAuthGetTokenOptions } from './OAuthTokenManager.js';
+import { OAuthAccessDeniedError, OAuthCredentialsError, OAuthInvalidGrantError } from './OAuthError.js';
+import { HeadlessBrowser, MockOAuthServer } from './testing.js';
+import { registerProvider } from './OAuthProviders.js';
+
+describe('OAuthGetToken', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    let server: MockOAuthServer;
+
+    before(async () => {
+        server = await MockOAuthServer.start({
+            clients: [
+                { client_id: 'confidential', client_secret: 'secret with spaces & symbols' },
+                { client_id: 'public-app' },
+                { client_id: 'signed', public_key: publicKey.export({ type: 'spki', format: 'pem' }) as string }
+            ]
+        });
+    });
+    after(() => server.close());
+
+    /**
+     * Run the flow with a fresh headless browser - returns the token and the page the browser ended on
+     */
+    async function authorize(getToken: OAuthGetToken, options: Partial<OAuthGetTokenOptions> = {}) {
+        const browser = new HeadlessBrowser();
+        const token = await getToken.getTokenOrThrow({ scope: 'read write', timeoutSeconds: 10, openBrowser: browser.open, ...options });
+        return { token, page: await browser.lastPage() };
+    }
+
+    it('completes the flow with state and PKCE and shows the granted scopes', async () => {
+        server.requests.length = 0;
+        const { token, page } = await authorize(new OAuthGetToken(server.credentials('confidential')), { appName: 'Test App' });
+
+        assert.match(token.access_token, /^mock-at-/);
+        assert.ok(token.refresh_token);
+        assert.equal(page.status, 200);
+        assert.match(page.body, /Test App/);
+        assert.match(page.body, /read write/);
+
+        const authorization = server.requests.find(request => request.endpoint === 'authorize');
+        assert.ok(authorization.params.state);
+        assert.equal(authorization.params.code_challenge_method, 'S256');
+        const exchange = server.requests.find(request => request.endpoint === 'token');
+        assert.equal(exchange.params.grant_type, 'authorization_code');
+        assert.equal(exchange.params.redirect_uri, authorization.params.redirect_uri);
+    });
+
+    it('verifies the ID token against the JWKS and the nonce', async () => {
+        const { token } = await authorize(new OAuthGetToken(server.credentials('confidential')), { scope: 'openid email' });
+        assert.ok(token.id_token);
+        assert.ok(token.id_token_claims.sub);
+        assert.ok(server.requests.some(request => request.endpoint === 'jwks'));
+    });
+
+    it('returns no claims for an ID token it could not verify', async () => {
+        const { issuer, jwks_uri, ...credentials } = server.credentials('confidential');
+        const { token } = await authorize(new OAuthGetToken(credentials), { scope: 'openid email' });
+        assert.ok(token.id_token);
+        assert.equal(token.id_token_claims, undefined);
+    });
+
+    it('sends a redirect URI with a fixed port exactly as registered', async () => {
+        const port = await new Promise<number>(resolve => {
+            const probe = net.createServer().listen(0, '127.0.0.1', () => {
+                const address = probe.address() as net.AddressInfo;
+                probe.close(() => resolve(address.port));
+            });
+        });
+        server.requests.length = 0;
+        const credentials = { ...server.credentials('confidential'), redirect_uris: [`http://127.0.0.1:${port}`] };
+        await authorize(new OAuthGetToken(credentials));
+
+        const authorization = server.requests.find(request => request.endpoint === 'authorize');
+        assert.equal(authorization.params.redirect_uri, `http://127.0.0.1:${port}`);
+    });
+
+    it('catches a redirect that arrives before the browser opener returns', async () => {
+        const browser = new HeadlessBrowser();
+        const slowOpener = async (url: string) => {
+            await browser.open(url);
+            await new Promise(resolve => setTimeout(resolve, 500));
+            return true;
+        };
+        const token = await new OAuthGetToken(server.credentials('confidential')).getTokenOrThrow({ scope: 'read', timeoutSeconds: 10, openBrowser: slowOpener });
+
+        assert.ok(token.access_token);
+        assert.equal((await browser.lastPage()).status, 200);
+    });
+
+    it('sends no Google extensions to a server without a preset', async () => {
+        server.requests.length = 0;
+        await authorize(new OAuthGetToken(server.credentials('confidential')), { includeOfflineAccess: true, includeGrantedScopes: true });
+
+        const authorization = server.requests.find(request => request.endpoint === 'authorize');
+        assert.equal(authorization.params.access_type, undefined);
+        assert.equal(authorization.params.include_granted_scopes, undefined);
+    });
+
+    it('receives the code by form_post', async () => {
+        const { token, page } = await authorize(new OAuthGetToken(server.credentials('confidential')), { responseMode: 'form_post' });
+        assert.ok(token.access_token);
+        assert.equal(page.status, 200);
+    });
+
+    it('authenticates with client_secret_basic', async () => {
+        server.requests.length = 0;
+        const credentials = { ...server.credentials('confidential'), token_endpoint_auth_method: 'client_secret_basic' as const };
+        await authorize(new OAuthGetToken(credentials));
+
+        const exchange = server.requests.find(request => request.endpoint === 'token');
+        assert.equal(exchange.clientAuthMethod, 'client_secret_basic');
+        assert.equal(exchange.params.client_secret, undefined);
+    });
+
+    it('authenticates a public client with PKCE alone', async () => {
+        server.requests.length = 0;
+        await authorize(new OAuthGetToken(server.credentials('public-app')));
+        assert.equal(server.requests.find(request => request.endpoint === 'token').clientAuthMethod, 'none');
+    });
+
+    it('authenticates with a private_key_jwt assertion', async () => {
+        server.requests.length = 0;
+        const credentials = {
+            ...server.credentials('signed'),
+            token_endpoint_auth_method: 'private_key_jwt' as const,
+            private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string
+        };
+        await authorize(new OAuthGetToken(credentials));
+        assert.equal(server.requests.find(request => request.endpoint === 'token').clientAuthMethod, 'private_key_jwt');
+    });
+
+    it('throws OAuthAccessDeniedError when the user denies consent', async () => {
+        server.options.consent = 'deny';
+        try {
+            const browser = new HeadlessBrowser();
+            await assert.rejects(
+                new OAuthGetToken(server.credentials('confidential')).getTokenOrThrow({ scope: 'read', timeoutSeconds: 10, openBrowser: browser.open }),
+                OAuthAccessDeniedError
+            );
+            assert.match((await browser.lastPage()).body, /access_denied/);
+        } finally {
+            server.options.consent = 'approve';
+        }
+    });
+
+    it('escapes the error and description from the callback query on the error page', async () => {
+        const browser = new HeadlessBrowser();
+        // A hostile link lands on the callback directly with markup in the error fields
+        const hostileOpener = async (url: string) => {
+            const authorization = new URL(url).searchParams;
+            const callback = new URL(authorization.get('redirect_uri')!);
+            callback.searchParams.set('error', 'access_denied"><img src=x onerror=alert(1)>');
+            callback.searchParams.set('error_description', '<script>alert("xss")</script> & more');
+            callback.searchParams.set('state', authorization.get('state')!);
+            return browser.open(callback.toString());
+        };
+
+        await assert.rejects(
+            new OAuthGetToken(server.credentials('confidential')).getTokenOrThrow({ scope: 'read', timeoutSeconds: 10, openBrowser: hostileOpener })
+        );
+        const page = await browser.lastPage();
+        assert.equal(page.status, 400);
+        assert.ok(page.body.includes('&lt;script&gt;alert(&quot;xss&quot;)&lt;/script&gt; &amp; more'));
+        assert.ok(page.body.includes('access_denied&quot;&gt;&lt;img src=x onerror=alert(1)&gt;'));
+        assert.ok(!page.body.includes('<script>alert'));
+        assert.ok(!page.body.includes('<img src=x'));
+    });
+
+    it('shows the error page when the code exchange is rejected', async () => {
+        const browser = new HeadlessBrowser();
+        server.failNext('token', { error: 'invalid_grant', errorDescription: 'Code already used' });
+
+        await assert.rejects(
+            new OAuthGetToken(server.credentials('confidential')).getTokenOrThrow({ scope: 'read', timeoutSeconds: 10, openBrowser: browser.open }),
+            OAuthInvalidGrantError
+        );
+        const page = await browser.lastPage();
+        assert.equal(page.status, 400);
+        assert.match(page.body, /Code already used/);
+    });
+
+    it('getToken returns null instead of throwing', async () => {
+        server.failNext('token', { status: 500 }, 3);
+        const token = await new OAuthGetToken(server.credentials('confidential')).getToken({
+            scope: 'read',
+            timeoutSeconds: 10,
+            openBrowser: new HeadlessBrowser().open,
+            retry: { retries: 2, minDelayMs: 1, maxDelayMs: 5 }
+        });
+        assert.equal(token, null);
+    });
+
+    it('finds credentials under another key than the one given', () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'oauth-test-'));
+        try {
+            const file = path.join(directory, 'credentials.json');
+            fs.writeFileSync(file, JSON.stringify({ web: server.credentials('confidential') }));
+
+            const credentials = OAuthGetToken.loadCredentialsFromFileOrThrow(file, 'installed');
+            assert.equal(credentials.client_id, 'confidential');
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('names the bad fields of a credentials file', () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'oauth-test-'));
+        try {
+            const file = path.join(directory, 'credentials.json');
+            const { client_id, redirect_uris } = server.credentials('confidential');
+            fs.writeFileSync(file, JSON.stringify({ installed: { client_id, redirect_uris, token_uri: 'not a url' } }));
+
+            assert.throws(() => OAuthGetToken.loadCredentialsFromFileOrThrow(file, 'installed'), (error: unknown) => {
+                assert.ok(error instanceof OAuthCredentialsError);
+                assert.deepEqual(error.fields.map(field => field.field).sort(), ['auth_uri', 'token_uri']);
+                return true;
+            });
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('OAuthGetToken with a provider preset', () => {
+    let server: MockOAuthServer;
+
+    before(async () => {
+        server = await MockOAuthServer.start();
+        // Recognized by token_uri, like Google's credentials files, which name no issuer or jwks_uri
+        const host = new URL(server.issuer).host;
+        registerProvider({
+            name: 'mock-preset',
+            scopeDelimiter: ' ',
+            offlineAccess: 'none',
+            endpoints: () => ({ issuer: server.issuer, jwks_uri: `${server.issuer}/jwks` }),
+            matches: (tokenUri) => tokenUri.host === host
+        });
+    });
+    after(() => server.close());
+
+    it('verifies the ID token against the keys the preset names', async () => {
+        const { issuer, jwks_uri, ...credentials } = server.credentials();
+        const browser = new HeadlessBrowser();
+        const token = await new OAuthGetToken(credentials).getTokenOrThrow({ scope: 'openid email', timeoutSeconds: 10, openBrowser: browser.open });
+
+        assert.ok(token.id_token_claims.sub);
+        assert.ok(server.requests.some(request => request.endpoint === 'jwks'));
+    });
+});
@@ -0,0 +1,231 @@
+/**
+ * HTTP plumbing shared by every call to a token or device endpoint
+ */
+
+import * as querystring from 'querystring';
+import type { OAuthToken } from './OAuthTokenManager.js';
+import { OAuthCancelledError, OAuthError, OAuthNetworkError, OAuthTimeoutError, type OAuthErrorPhase } from './OAuthError.js';
+import { describeError, silentLogger, type OAuthLogger } from './OAuthLogger.js';
+import { authenticateClient, type ClientAuthentication } from './OAuthClientAuth.js';
+
+/**
+ * Retries for transient failures - network errors, timeouts, 5xx and 429.
+ * OAuth error responses such as invalid_grant are permanent and never retried
+ */
+export interface RetryOptions {
+    retries?: number;  /** Attempts after the first (default: 2) */
+    minDelayMs?: number;  /** Backoff base - doubled per attempt, with full jitter (default: 500) */
+    maxDelayMs?: number;  /** Longest wait between attempts; a longer Retry-After is not waited for (default: 10000) */
+    timeoutMs?: number;  /** Per-attempt timeout, including reading the body (default: 30000) */
+}
+
+export interface TokenRequestOptions {
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+    retry?: RetryOptions | false;  /** false: one attempt, default timeout */
+    clientAuth?: ClientAuthentication;  /** Authenticate as this client - applied to every attempt */
+    logger?: OAuthLogger;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = { retries: 2, minDelayMs: 500, maxDelayMs: 10000, timeoutMs: 30000 };
+
+// Server clock readings for parsed token responses - the token manager reads them when it saves a token
+const serverTimes = new WeakMap<object, number>();
+
+/**
+ * The server's clock when a token response arrived, from its Date header - undefined when the
+ * response had none, or did not come from postTokenRequest
+ */
+export function serverTimeOf(response: object): number | undefined {
+    return serverTimes.get(response);
+}
+
+/**
+ * Parse a token endpoint body - JSON normally, form-encoded from providers that ignore Accept
+ */
+function parseResponseBody(text: string): Record<string, any> | null {
+    try {
+        const parsed = JSON.parse(text);
+        return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch {
+        const parsed = querystring.parse(text);
+        return 'access_token' in parsed || 'error' in parsed ? parsed : null;
+    }
+}
+
+/**
+ * Retry-After as milliseconds - either delay-seconds or an HTTP date
+ */
+function retryAfterMs(header: string | null): number | undefined {
+    if (!header) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(seconds, 0) * 1000;
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Retry options with defaults for every field that is not a usable number - an explicit
+ * undefined must not replace a default (retries: undefined would retry forever)
+ */
+function retrySettings(retry: RetryOptions | false | undefined): Required<RetryOptions> {
+    const given: RetryOptions = retry === false ? { retries: 0 } : retry || {};
+    const settings = { ...DEFAULT_RETRY };
+    for (const field of Object.keys(DEFAULT_RETRY) as (keyof RetryOptions)[]) {
+        const value = given[field];
+        // A zero timeout would abort every attempt at once
+        if (typeof value === 'number' && Number.isFinite(value) && (field === 'timeoutMs' ? value > 0 : value >= 0)) {
+            settings[field] = value;
+        }
+    }
+    return settings;
+}
+
+/**
+ * The longest a token request can take with these retry settings - every attempt timing out,
+ * with the longest wait between them
+ */
+export function longestRequestMs(retry?: RetryOptions | false): number {
+    const settings = retrySettings(retry);
+    return (settings.retries + 1) * settings.timeoutMs + settings.retries * settings.maxDelayMs;
+}
+
+/**
+ * Wait before a retry - rejects with OAuthCancelledError if the caller aborts
+ */
+function backoff(ms: number, phase: OAuthErrorPhase, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new OAuthCancelledError(phase));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * POST a form once and read the whole body, turning transport failures into OAuthError
+ */
+async function sendFormOnce(url: string, params: Record<string, string>, phase: OAuthErrorPhase, options: TokenRequestOptions, timeoutMs: number): Promise<{ response: Response; text: string; roundTripMs: number }> {
+    const authenticated = options.clientAuth ? authenticateClient(options.clientAuth, params) : { params, headers: {} };
+
+    // The caller's signal cancels, our own timer times out - fetch takes a single signal
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        const sentAt = performance.now();
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'Accept': 'application/json',
+                ...authenticated.headers,
+                ...options.headers
+            },
+            body: querystring.stringify(authenticated.params),
+            signal: controller.signal
+        });
+        return { response, text: await response.text(), roundTripMs: performance.now() - sentAt };
+    } catch (error) {
+        if (options.signal?.aborted) {
+            throw new OAuthCancelledError(phase);
+        }
+        if (controller.signal.aborted) {
+            throw new OAuthTimeoutError(phase, `No response from ${new URL(url).host} within ${timeoutMs} ms`);
+        }
+        throw new OAuthNetworkError(phase, error);
+    } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * POST a form, retrying transient failures with exponential backoff.
+ * Returns the last response when retries run out - callers turn it into an OAuthError
+ */
+async function sendForm(url: string, params: Record<string, string>, phase: OAuthErrorPhase, options: TokenRequestOptions): Promise<{ response: Response; text: string; roundTripMs: number }> {
+    const retry = retrySettings(options.retry);
+    const logger = options.logger || silentLogger;
+
+    for (let attempt = 0; ; attempt++) {
+        let delay = Math.random() * Math.min(retry.maxDelayMs, retry.minDelayMs * 2 ** attempt);
+        try {
+            const result = await sendFormOnce(url, params, phase, options, retry.timeoutMs);
+            const status = result.response.status;
+            if (attempt >= retry.retries || (status < 500 && status !== 429)) {
+                return result;
+            }
+
+            const retryAfter = retryAfterMs(result.response.headers.get('Retry-After'));
+            if (retryAfter !== undefined) {
+                if (retryAfter > retry.maxDelayMs) {
+                    return result;  // Not worth blocking for - report the failure now
+                }
+                delay = Math.max(delay, retryAfter);
+            }
+            logger.warn(`HTTP ${status} from ${new URL(url).host} during ${phase}, retrying in ${Math.round(delay)} ms`);
+        } catch (error) {
+            if (attempt >= retry.retries || !(error instanceof OAuthNetworkError || error instanceof OAuthTimeoutError)) {
+                throw error;
+            }
+            logger.warn(`${describeError(error)} during ${phase}, retrying in ${Math.round(delay)} ms`);
+        }
+        await backoff(delay, phase, options.signal);
+    }
+}
+
+/**
+ * POST a form to a token or device endpoint and return the parsed response
+ * Throws OAuthError for error responses - some providers send them with a 200 status
+ */
+export async function postTokenRequest<T = OAuthToken>(url: string, params: Record<string, string>, phase: OAuthErrorPhase, options: TokenRequestOptions = {}): Promise<T> {
+    const { response, text, roundTripMs } = await sendForm(url, params, phase, options);
+    const body = parseResponseBody(text);
+    if (!body) {
+        throw new OAuthError({
+            error: 'invalid_response',
+            errorDescription: `Unparseable response (HTTP ${response.status} ${response.statusText})`,
+            status: response.status,
+            phase
+        });
+    }
+    if (!response.ok || body.error) {
+        throw OAuthError.fromResponse(body, response.status, phase);
+    }
+
+    // The header is truncated to the second and was stamped about half a round trip ago
+    const serverDate = Date.parse(response.headers.get('Date') || '');
+    if (!Number.isNaN(serverDate)) {
+        serverTimes.set(body, serverDate + 500 + roundTripMs / 2);
+    }
+    return body as T;
+}
+
+/**
+ * POST a revocation request (RFC 7009) - any 2xx is success and the body is ignored.
+ * A token the server no longer recognizes ('invalid_token') is already revoked, so that is success too
+ */
+export async function postRevocationRequest(url: string, params: Record<string, string>, options: TokenRequestOptions = {}): Promise<void> {
+    const { response, text } = await sendForm(url, params, 'revoke', options);
+    if (response.ok) {
+        return;
+    }
+
+    const body = parseResponseBody(text) || {};
+    if (body.error === 'invalid_token') {
+        return;
+    }
+    throw OAuthError.fromResponse(body, response.status, 'revoke');
+}
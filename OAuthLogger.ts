@@ -0,0 +1,26 @@
+/**
+ * Logging for the OAuth library
+ * Silent by default - pass console, a pino logger or anything with the same four methods.
+ * Messages never contain authorization codes, tokens or secrets.
+ */
+
+export interface OAuthLogger {
+    debug(message: string): void;
+    info(message: string): void;
+    warn(message: string): void;
+    error(message: string): void;
+}
+
+export const silentLogger: OAuthLogger = {
+    debug() {},
+    info() {},
+    warn() {},
+    error() {}
+};
+
+/**
+ * Describe an error for a log line - the message only, never the stack or response bodies
+ */
+export function describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
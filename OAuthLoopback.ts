@@ -0,0 +1,215 @@
+/**
+ * Loopback redirect server for native apps (RFC 8252 section 7.3)
+ * Receives the authorization response on the redirect URI's path - by query or form_post
+ */
+
+import * as http from 'http';
+import * as querystring from 'querystring';
+import { OAuthCancelledError, OAuthError, OAuthTimeoutError } from './OAuthError.js';
+import { silentLogger, type OAuthLogger } from './OAuthLogger.js';
+
+export interface LoopbackServerOptions {
+    bindAddress?: string;  /** Interface to listen on, e.g. '127.0.0.1' or '::1' - default: the redirect URI's IP literal, else all interfaces */
+    ephemeralPort?: boolean;  /** Listen on any free port and put it in the redirect URI (a port of 0 in the URI does the same) */
+    logger?: OAuthLogger;
+}
+
+/**
+ * One authorization response, to be answered once the caller has checked it
+ */
+export interface LoopbackCallback {
+    params: Record<string, string>;
+    respond(status: number, html: string): void;
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const DEFAULT_PORT = 8080;
+const MAX_FORM_BODY = 64 * 1024;
+
+/**
+ * Redirect URIs worth listening on, in order - the loopback ones, or the first as before if there are none.
+ * Each keeps its registered spelling, which providers may compare as an exact string
+ */
+function loopbackCandidates(redirectUris: string[]): { uri: string; url: URL }[] {
+    const candidates = redirectUris.flatMap(uri => {
+        try {
+            return [{ uri, url: new URL(uri) }];
+        } catch {
+            return [];
+        }
+    });
+    const loopback = candidates.filter(({ url }) => url.protocol === 'http:' && LOOPBACK_HOSTS.includes(url.hostname));
+    const fallback = `http://localhost:${DEFAULT_PORT}`;
+    return loopback.length > 0 ? loopback : [candidates[0] || { uri: fallback, url: new URL(fallback) }];
+}
+
+/**
+ * The redirect URI with another port, changing nothing else about how it is written
+ */
+function withPort(uri: string, port: number): string {
+    return uri.replace(/^(https?:\/\/(?:\[[^\]]*\]|[^/:?#]+))(?::\d*)?/i, `$1:${port}`);
+}
+
+export class LoopbackServer {
+    readonly redirectUri: string;  // The URI the server really answers - send this in the authorization and token requests
+    private server: http.Server;
+    private path: string;
+    private logger: OAuthLogger;
+    private onCallback?: (callback: LoopbackCallback) => void;
+
+    private constructor(server: http.Server, redirectUri: string, logger: OAuthLogger) {
+        this.server = server;
+        this.redirectUri = redirectUri;
+        this.path = new URL(redirectUri).pathname;
+        this.logger = logger;
+        server.on('request', (req, res) => this.handleRequest(req, res));
+    }
+
+    /**
+     * Listen on the first redirect URI that can be bound, falling back to the next on failure.
+     * Throws OAuthError ('loopback_unavailable') when none can
+     */
+    static async start(redirectUris: string[], options: LoopbackServerOptions = {}): Promise<LoopbackServer> {
+        const logger = options.logger || silentLogger;
+        const failures: string[] = [];
+
+        for (const { uri, url } of loopbackCandidates(redirectUris)) {
+            const port = options.ephemeralPort ? 0 : url.port === '' ? DEFAULT_PORT : Number(url.port);
+            const ipLiteral = url.hostname === 'localhost' ? undefined : url.hostname.replace(/^\[(.*)\]$/, '$1');
+            const host = options.bindAddress || ipLiteral;
+
+            const server = http.createServer();
+            try {
+                await new Promise<void>((resolve, reject) => {
+                    server.once('error', reject);
+                    server.listen(port, host, () => {
+                        server.off('error', reject);
+                        resolve();
+                    });
+                });
+            } catch (error) {
+                const code = (error as NodeJS.ErrnoException).code;
+                const reason = code === 'EADDRINUSE' ? `port ${port} is already in use` : (error as Error).message;
+                logger.warn(`Cannot listen for ${url} - ${reason}`);
+                failures.push(`${url} (${reason})`);
+                continue;
+            }
+
+            // RFC 8252 section 7.3 - the provider must accept whatever port we got. The registered
+            // URI goes out unchanged when it names the port we listen on
+            const address = server.address();
+            const redirectUri = typeof address === 'object' && address && String(address.port) !== url.port ? withPort(uri, address.port) : uri;
+            logger.debug(`Listening for the OAuth redirect on ${redirectUri}${host ? ` (bound to ${host})` : ''}`);
+            return new LoopbackServer(server, redirectUri, logger);
+        }
+
+        throw new OAuthError({
+            error: 'loopback_unavailable',
+            errorDescription: `Cannot listen for the OAuth redirect: ${failures.join('; ')}. ` +
+                'Close the program using the port, add another loopback redirect URI, or use port 0',
+            phase: 'authorize'
+        });
+    }
+
+    /**
+     * Answer requests: authorization responses on the callback path go to the waiting caller,
+     * anything else (favicon, stray paths) gets a 404
+     */
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const url = new URL(req.url || '/', this.redirectUri);
+        if (url.pathname !== this.path || (req.method !== 'GET' && req.method !== 'POST')) {
+            res.writeHead(404, { 'Content-Type': 'text/plain' });
+            res.end('Not found');
+            return;
+        }
+
+        const deliver = (params: Record<string, string>) => {
+            if (!params.code && !params.error) {
+                // Someone opened the redirect URI by hand - not an authorization response
+                res.writeHead(400, { 'Content-Type': 'text/plain' });
+                res.end('Waiting for an authorization response');
+                return;
+            }
+            if (!this.onCallback) {
+                res.writeHead(409, { 'Content-Type': 'text/plain' });
+                res.end('Authorization response already received');
+                return;
+            }
+
+            const onCallback = this.onCallback;
+            this.onCallback = undefined;
+            onCallback({
+                params,
+                respond: (status, html) => {
+                    // The page may come after close() - do not leave a keep-alive connection holding the process
+                    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store', 'Connection': 'close' });
+                    res.end(html);
+                }
+            });
+        };
+
+        if (req.method === 'GET') {
+            deliver(Object.fromEntries(url.searchParams.entries()));
+            return;
+        }
+
+        // response_mode=form_post (OAuth 2.0 Form Post Response Mode)
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', (chunk: string) => {
+            body += chunk;
+            if (body.length > MAX_FORM_BODY) {
+                res.writeHead(413, { 'Content-Type': 'text/plain' });
+                res.end('Request too large');
+                req.destroy();
+            }
+        });
+        req.on('end', () => {
+            if (!res.headersSent) {
+                const parsed = querystring.parse(body);
+                deliver(Object.fromEntries(Object.entries(parsed).map(([key, value]) => [key, String(value)])));
+            }
+        });
+    }
+
+    /**
+     * Wait for the authorization response - rejects with OAuthTimeoutError or OAuthCancelledError
+     */
+    waitForCallback(timeoutSeconds: number, signal?: AbortSignal): Promise<LoopbackCallback> {
+        return new Promise((resolve, reject) => {
+            const finish = () => {
+                clearTimeout(timeout);
+                signal?.removeEventListener('abort', onAbort);
+                this.onCallback = undefined;
+            };
+            const onAbort = () => {
+                this.logger.info('OAuth callback cancelled by user');
+                finish();
+                reject(new OAuthCancelledError('callback'));
+            };
+            const timeout = setTimeout(() => {
+                finish();
+                reject(new OAuthTimeoutError('callback', 'Timeout waiting for OAuth callback'));
+            }, timeoutSeconds * 1000);
+
+            if (signal?.aborted) {
+                onAbort();
+                return;
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.onCallback = (callback) => {
+                finish();
+                resolve(callback);
+            };
+        });
+    }
+
+    /**
+     * Stop listening - idle keep-alive connections from the browser are dropped too
+     */
+    close(): void {
+        this.server.close();
+        this.server.closeIdleConnections?.();
+    }
+}
@@ -0,0 +1,868 @@
+/**
+ * Mock OAuth authorization server
+ * An in-process provider for tests and offline development: discovery, authorization code with PKCE,
+ * refresh, client credentials, the device flow, revocation, UserInfo, signed ID tokens and a protected
+ * resource - with short expiries, rotation, rejected grants, server errors and slow responses on demand.
+ * HeadlessBrowser plays the user's browser, following the authorization URL to the loopback callback
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import type { OAuthCredentials, OAuthToken } from './OAuthTokenManager.js';
+import { escapeHtml } from './OAuthPages.js';
+
+export interface MockOAuthClient {
+    client_id: string;
+    client_secret?: string;  // Omit for a public client - it then authenticates with client_id alone
+    redirect_uris?: string[];  // Default: any loopback URI; loopback ports never have to match (RFC 8252 section 7.3)
+    public_key?: string;  // PEM public key - accepts private_key_jwt assertions signed with its private key
+}
+
+export interface MockUser {
+    sub: string;
+    email?: string;
+    name?: string;
+}
+
+export interface MockOAuthServerOptions {
+    clients?: MockOAuthClient[];  // Default: one confidential client, mock-client / mock-secret
+    user?: MockUser;  // Who approves every authorization request (default: mock-user, user@example.com)
+    accessTokenLifetimeSeconds?: number | null;  // Default: 3600; null issues tokens without expires_in
+    issueRefreshTokens?: boolean;  // Default: true
+    refreshTokenRotation?: boolean;  // Issue a new refresh token on every refresh and invalidate the old one (default: false)
+    consent?: 'approve' | 'deny';  // The user's answer at the authorization endpoint (default: approve)
+    grantScope?: (requestedScope: string) => string;  // Scope actually granted (default: the requested one)
+    deviceInterval?: number;  // Polling interval the device endpoint asks for, in seconds (default: 5)
+    latencyMs?: number;  // Delay before every response (default: 0)
+}
+
+export type MockEndpoint = 'discovery' | 'authorize' | 'token' | 'revoke' | 'device' | 'userinfo' | 'jwks' | 'resource';
+
+/**
+ * A one-off misbehaviour for failNext - an OAuth error, a server error, or with only delayMs, a slow response
+ */
+export interface MockFault {
+    status?: number;  // Default: 400 with an error, 500 without; omit both (and give delayMs) for a normal but slow answer
+    error?: string;  // OAuth error code, e.g. 'invalid_grant' or 'temporarily_unavailable'
+    errorDescription?: string;
+    delayMs?: number;  // Wait this long before answering
+    headers?: Record<string, string>;  // e.g. Retry-After
+}
+
+/**
+ * One request the server received, secrets included - for assertions in tests
+ */
+export interface MockRequest {
+    endpoint: MockEndpoint | 'unknown';
+    method: string;
+    path: string;
+    params: Record<string, string>;  // Query for GET, form body for POST
+    headers: http.IncomingHttpHeaders;
+    clientAuthMethod?: string;  // How the client authenticated at the token or revocation endpoint
+}
+
+interface AuthorizationCode {
+    clientId: string;
+    redirectUri: string;
+    scope: string;
+    codeChallenge?: string;
+    codeChallengeMethod?: string;
+    nonce?: string;
+    expiresAt: number;
+}
+
+interface IssuedToken {
+    clientId: string;
+    scope: string;
+    expiresAt?: number;  // Access tokens only
+}
+
+interface DeviceAuthorization {
+    clientId: string;
+    userCode: string;
+    scope: string;
+    status: 'pending' | 'approved' | 'denied';
+    expiresAt: number;
+    lastPollAt?: number;
+}
+
+// Thrown inside request handling, answered as an OAuth error response
+class MockOAuthError extends Error {
+    constructor(readonly status: number, readonly error: string, readonly errorDescription?: string, readonly headers: Record<string, string> = {}) {
+        super(errorDescription || error);
+    }
+}
+
+const DEFAULT_CLIENT: MockOAuthClient = { client_id: 'mock-client', client_secret: 'mock-secret' };
+const DEFAULT_USER: MockUser = { sub: 'mock-user', email: 'user@example.com', name: 'Mock User' };
+const CODE_LIFETIME_MS = 60 * 1000;
+const DEVICE_CODE_LIFETIME_SECONDS = 600;
+const ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+// JWS algorithm -> node:crypto verify parameters, for private_key_jwt assertions
+const ASSERTION_ALGORITHMS: Record<string, { digest: string | null; dsaEncoding?: 'ieee-p1363' }> = {
+    RS256: { digest: 'sha256' },
+    ES256: { digest: 'sha256', dsaEncoding: 'ieee-p1363' },
+    ES384: { digest: 'sha384', dsaEncoding: 'ieee-p1363' },
+    ES512: { digest: 'sha512', dsaEncoding: 'ieee-p1363' },
+    EdDSA: { digest: null }
+};
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isLoopbackUri(uri: URL): boolean {
+    return uri.protocol === 'http:' && ['127.0.0.1', '[::1]', 'localhost'].includes(uri.hostname);
+}
+
+/**
+ * Decode one part of HTTP Basic credentials - form-encoded, as RFC 6749 section 2.3.1 requires
+ */
+function formDecode(value: string): string {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+}
+
+function base64urlJson(part: string): any {
+    return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+}
+
+/**
+ * An OAuth 2.0 / OpenID Connect provider on a loopback port.
+ * Start it, hand credentials() to the code under test, and steer it with the control methods
+ */
+export class MockOAuthServer {
+    readonly issuer: string;
+    readonly options: MockOAuthServerOptions;  // Mutable - changes apply to the next request
+    readonly requests: MockRequest[] = [];
+
+    private server: http.Server;
+    private clients = new Map<string, MockOAuthClient>();
+    private user: MockUser;
+    private signingKey: crypto.KeyObject;
+    private jwk: crypto.JsonWebKey;
+    private faults = new Map<MockEndpoint, MockFault[]>();
+    private codes = new Map<string, AuthorizationCode>();
+    private accessTokens = new Map<string, IssuedToken>();
+    private refreshTokens = new Map<string, IssuedToken>();
+    private devices = new Map<string, DeviceAuthorization>();
+    private seenAssertions = new Set<string>();
+
+    private constructor(server: http.Server, issuer: string, options: MockOAuthServerOptions) {
+        this.server = server;
+        this.issuer = issuer;
+        this.options = options;
+        for (const client of options.clients || [DEFAULT_CLIENT]) {
+            this.clients.set(client.client_id, client);
+        }
+        this.user = options.user || DEFAULT_USER;
+
+        const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+        this.signingKey = privateKey;
+        this.jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'mock-key-1', use: 'sig', alg: 'RS256' };
+    }
+
+    /**
+     * Start a server on a free 127.0.0.1 port
+     */
+    static async start(options: MockOAuthServerOptions = {}): Promise<MockOAuthServer> {
+        const server = http.createServer();
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(0, '127.0.0.1', () => resolve());
+        });
+        const { port } = server.address() as import('net').AddressInfo;
+        const mock = new MockOAuthServer(server, `http://127.0.0.1:${port}`, options);
+        server.on('request', (req, res) => mock.handle(req, res));
+        return mock;
+    }
+
+    /**
+     * Stop listening and drop open connections - keep-alive sockets would hold the process open
+     */
+    close(): Promise<void> {
+        return new Promise(resolve => {
+            this.server.close(() => resolve());
+            this.server.closeAllConnections();
+        });
+    }
+
+    /**
+     * Credentials for one of the server's clients, with every endpoint filled in and a loopback
+     * redirect URI on port 0, so the flow picks a free port
+     */
+    credentials(clientId?: string): OAuthCredentials {
+        const client = clientId ? this.clients.get(clientId) : this.clients.values().next().value;
+        if (!client) {
+            throw new Error(`Unknown mock client: ${clientId}`);
+        }
+        return {
+            client_id: client.client_id,
+            client_secret: client.client_secret,
+            redirect_uris: client.redirect_uris || ['http://127.0.0.1:0/callback'],
+            auth_uri: `${this.issuer}/authorize`,
+            token_uri: `${this.issuer}/token`,
+            device_authorization_uri: `${this.issuer}/device/code`,
+            revocation_uri: `${this.issuer}/revoke`,
+            userinfo_uri: `${this.issuer}/userinfo`,
+            issuer: this.issuer,
+            jwks_uri: `${this.issuer}/jwks`
+        };
+    }
+
+    /**
+     * URL of the protected resource - answers 401 with WWW-Authenticate without a live access token
+     */
+    get resourceUrl(): string {
+        return `${this.issuer}/resource`;
+    }
+
+    /**
+     * Make the next requests to an endpoint misbehave, once per call to failNext (or `times` times)
+     */
+    failNext(endpoint: MockEndpoint, fault: MockFault = {}, times: number = 1): void {
+        const queue = this.faults.get(endpoint) || [];
+        for (let i = 0; i < times; i++) {
+            queue.push(fault);
+        }
+        this.faults.set(endpoint, queue);
+    }
+
+    /**
+     * Mint tokens directly, as if a flow had completed - for seeding a token store
+     */
+    issueTokens(scope: string = '', clientId?: string): OAuthToken {
+        const client = clientId || this.clients.keys().next().value;
+        return this.tokenResponse(client, scope, { refreshToken: this.options.issueRefreshTokens !== false });
+    }
+
+    /**
+     * Forget every refresh token - the next refresh gets invalid_grant, as after a user revoked access
+     */
+    revokeRefreshTokens(): void {
+        this.refreshTokens.clear();
+    }
+
+    /**
+     * Expire every access token issued so far - the resource endpoint starts answering 401
+     */
+    expireAccessTokens(): void {
+        for (const token of this.accessTokens.values()) {
+            token.expiresAt = Date.now() - 1;
+        }
+    }
+
+    /**
+     * Approve a pending device authorization by user code, or every pending one
+     */
+    approveDevice(userCode?: string): void {
+        this.answerDevice('approved', userCode);
+    }
+
+    /**
+     * Deny a pending device authorization by user code, or every pending one
+     */
+    denyDevice(userCode?: string): void {
+        this.answerDevice('denied', userCode);
+    }
+
+    private answerDevice(status: 'approved' | 'denied', userCode?: string): void {
+        for (const device of this.devices.values()) {
+            if (device.status === 'pending' && (userCode === undefined || device.userCode === userCode)) {
+                device.status = status;
+            }
+        }
+    }
+
+    private static endpointFor(pathname: string): MockEndpoint | 'unknown' {
+        if (pathname.startsWith('/.well-known/')) {
+            return 'discovery';
+        }
+        const endpoints: Record<string, MockEndpoint> = {
+            '/authorize': 'authorize',
+            '/token': 'token',
+            '/revoke': 'revoke',
+            '/device/code': 'device',
+            '/device': 'device',
+            '/userinfo': 'userinfo',
+            '/jwks': 'jwks',
+            '/resource': 'resource'
+        };
+        return endpoints[pathname] || 'unknown';
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const url = new URL(req.url || '/', this.issuer);
+        const endpoint = MockOAuthServer.endpointFor(url.pathname);
+        const request: MockRequest = {
+            endpoint,
+            method: req.method || 'GET',
+            path: url.pathname,
+            params: Object.fromEntries(url.searchParams),
+            headers: req.headers
+        };
+
+        try {
+            if (req.method === 'POST') {
+                const chunks: Buffer[] = [];
+                for await (const chunk of req) {
+                    chunks.push(chunk as Buffer);
+                }
+                request.params = Object.fromEntries(new URLSearchParams(Buffer.concat(chunks).toString('utf8')));
+            }
+            this.requests.push(request);
+
+            if (this.options.latencyMs) {
+                await sleep(this.options.latencyMs);
+            }
+            const fault = endpoint !== 'unknown' ? this.faults.get(endpoint)?.shift() : undefined;
+            if (fault?.delayMs) {
+                await sleep(fault.delayMs);
+            }
+            if (fault && (fault.status || fault.error || !fault.delayMs)) {
+                throw new MockOAuthError(fault.status || (fault.error ? 400 : 500), fault.error || 'server_error', fault.errorDescription, fault.headers);
+            }
+
+            await this.route(endpoint, url, request, res);
+        } catch (error) {
+            if (res.headersSent) {
+                return;
+            }
+            if (error instanceof MockOAuthError) {
+                this.sendJson(res, error.status, { error: error.error, error_description: error.errorDescription }, error.headers);
+            } else {
+                this.sendJson(res, 500, { error: 'server_error', error_description: (error as Error).message });
+            }
+        }
+    }
+
+    private async route(endpoint: MockEndpoint | 'unknown', url: URL, request: MockRequest, res: http.ServerResponse): Promise<void> {
+        switch (endpoint) {
+            case 'discovery':
+                if (url.pathname !== '/.well-known/openid-configuration' && url.pathname !== '/.well-known/oauth-authorization-server') {
+                    break;
+                }
+                return this.sendJson(res, 200, this.metadata());
+            case 'authorize':
+                return this.authorize(request, res);
+            case 'token':
+                if (request.method !== 'POST') {
+                    break;
+                }
+                return this.sendJson(res, 200, this.token(request), { 'Cache-Control': 'no-store' });
+            case 'revoke':
+                if (request.method !== 'POST') {
+                    break;
+                }
+                this.revoke(request);
+                return this.sendJson(res, 200, {});
+            case 'device':
+                return request.path === '/device/code' ? this.sendJson(res, 200, this.deviceCode(request)) : this.verifyDevice(request, res);
+            case 'userinfo':
+                return this.sendJson(res, 200, this.userinfo(request));
+            case 'jwks':
+                return this.sendJson(res, 200, { keys: [this.jwk] });
+            case 'resource':
+                return this.sendJson(res, 200, this.resource(request));
+        }
+        this.sendJson(res, 404, { error: 'not_found' });
+    }
+
+    private sendJson(res: http.ServerResponse, status: number, body: object, headers: Record<string, string> = {}): void {
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(body));
+    }
+
+    private sendHtml(res: http.ServerResponse, status: number, html: string): void {
+        res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(`<!DOCTYPE html>\n${html}`);
+    }
+
+    private metadata(): object {
+        return {
+            issuer: this.issuer,
+            authorization_endpoint: `${this.issuer}/authorize`,
+            token_endpoint: `${this.issuer}/token`,
+            device_authorization_endpoint: `${this.issuer}/device/code`,
+            revocation_endpoint: `${this.issuer}/revoke`,
+            userinfo_endpoint: `${this.issuer}/userinfo`,
+            jwks_uri: `${this.issuer}/jwks`,
+            response_types_supported: ['code'],
+            response_modes_supported: ['query', 'form_post'],
+            grant_types_supported: ['authorization_code', 'refresh_token', 'client_credentials', 'urn:ietf:params:oauth:grant-type:device_code'],
+            code_challenge_methods_supported: ['S256', 'plain'],
+            token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'client_secret_jwt', 'private_key_jwt', 'none'],
+            id_token_signing_alg_values_supported: ['RS256'],
+            subject_types_supported: ['public']
+        };
+    }
+
+    /**
+     * A redirect URI the client registered - loopback ones match on any port
+     */
+    private redirectUriAllowed(client: MockOAuthClient, redirectUri: string): boolean {
+        let requested: URL;
+        try {
+            requested = new URL(redirectUri);
+        } catch {
+            return false;
+        }
+        if (!client.redirect_uris) {
+            return isLoopbackUri(requested);
+        }
+        return client.redirect_uris.some(registered => {
+            const allowed = new URL(registered);
+            if (isLoopbackUri(allowed) && isLoopbackUri(requested)) {
+                return allowed.hostname === requested.hostname && allowed.pathname === requested.pathname;
+            }
+            return registered === redirectUri;
+        });
+    }
+
+    /**
+     * Authorization endpoint - the user approves (or denies) at once and is sent back to the client
+     */
+    private authorize(request: MockRequest, res: http.ServerResponse): void {
+        const params = request.params;
+        const client = this.clients.get(params.client_id);
+        // Errors about the client or redirect URI must not be redirected (RFC 6749 section 4.1.2.1)
+        if (!client) {
+            return this.sendHtml(res, 400, '<title>Error</title><p>Unknown client_id</p>');
+        }
+        if (!params.redirect_uri || !this.redirectUriAllowed(client, params.redirect_uri)) {
+            return this.sendHtml(res, 400, '<title>Error</title><p>redirect_uri is not registered for this client</p>');
+        }
+
+        const answer: Record<string, string> = {};
+        if (params.response_type !== 'code') {
+            Object.assign(answer, { error: 'unsupported_response_type' });
+        } else if (params.code_challenge_method && !['S256', 'plain'].includes(params.code_challenge_method)) {
+            Object.assign(answer, { error: 'invalid_request', error_description: 'Unsupported code_challenge_method' });
+        } else if (this.options.consent === 'deny') {
+            Object.assign(answer, { error: 'access_denied', error_description: 'The user denied the request' });
+        } else {
+            const code = crypto.randomBytes(16).toString('base64url');
+            this.codes.set(code, {
+                clientId: client.client_id,
+                redirectUri: params.redirect_uri,
+                scope: params.scope || '',
+                codeChallenge: params.code_challenge,
+                codeChallengeMethod: params.code_challenge ? params.code_challenge_method || 'plain' : undefined,
+                nonce: params.nonce,
+                expiresAt: Date.now() + CODE_LIFETIME_MS
+            });
+            answer.code = code;
+        }
+        if (params.state !== undefined) {
+            answer.state = params.state;
+        }
+        answer.iss = this.issuer;  // RFC 9207
+
+        if (params.response_mode === 'form_post') {
+            const fields = Object.entries(answer)
+                .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+                .join('');
+            return this.sendHtml(res, 200,
+                `<html><body onload="document.forms[0].submit()"><form method="post" action="${escapeHtml(params.redirect_uri)}">${fields}</form></body></html>`);
+        }
+        const location = new URL(params.redirect_uri);
+        for (const [name, value] of Object.entries(answer)) {
+            location.searchParams.set(name, value);
+        }
+        res.writeHead(302, { Location: location.toString() });
+        res.end();
+    }
+
+    /**
+     * Identify and authenticate the client of a token, revocation or device authorization request - throws invalid_client
+     */
+    private authenticateClient(request: MockRequest): MockOAuthClient {
+        const params = request.params;
+        const invalidClient = (description: string) => new MockOAuthError(401, 'invalid_client', description);
+
+        const authorization = request.headers.authorization;
+        if (authorization?.startsWith('Basic ')) {
+            const decoded = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8');
+            const separator = decoded.indexOf(':');
+            const client = this.clients.get(formDecode(decoded.slice(0, separator)));
+            if (separator < 0 || !client?.client_secret || formDecode(decoded.slice(separator + 1)) !== client.client_secret) {
+                throw invalidClient('Client authentication failed');
+            }
+            if (params.client_id && params.client_id !== client.client_id) {
+                throw invalidClient('client_id does not match the Authorization header');
+            }
+            request.clientAuthMethod = 'client_secret_basic';
+            return client;
+        }
+
+        if (params.client_assertion_type || params.client_assertion) {
+            if (params.client_assertion_type !== ASSERTION_TYPE) {
+                throw invalidClient('Unsupported client_assertion_type');
+            }
+            return this.verifyClientAssertion(request);
+        }
+
+        const client = this.clients.get(params.client_id);
+        if (!client) {
+            throw invalidClient('Unknown client_id');
+        }
+        if (params.client_secret !== undefined) {
+            if (params.client_secret !== client.client_secret) {
+                throw invalidClient('Client authentication failed');
+            }
+            request.clientAuthMethod = 'client_secret_post';
+            return client;
+        }
+        if (client.client_secret || client.public_key) {
+            throw invalidClient('Confidential clients must authenticate');
+        }
+        request.clientAuthMethod = 'none';
+        return client;
+    }
+
+    /**
+     * Check a client_secret_jwt or private_key_jwt assertion (RFC 7523 section 3)
+     */
+    private verifyClientAssertion(request: MockRequest): MockOAuthClient {
+        const invalidClient = (description: string) => new MockOAuthError(401, 'invalid_client', description);
+        const parts = request.params.client_assertion.split('.');
+        let header: { alg?: string };
+        let claims: { iss?: string; sub?: string; aud?: string | string[]; exp?: number; jti?: string };
+        try {
+            header = base64urlJson(parts[0]);
+            claims = base64urlJson(parts[1]);
+        } catch {
+            throw invalidClient('client_assertion is not a JWT');
+        }
+
+        const client = this.clients.get(claims.iss);
+        if (!client || claims.sub !== claims.iss || (request.params.client_id && request.params.client_id !== claims.iss)) {
+            throw invalidClient('client_assertion iss and sub must be the client_id');
+        }
+
+        const signingInput = Buffer.from(`${parts[0]}.${parts[1]}`);
+        const signature = Buffer.from(parts[2] || '', 'base64url');
+        let valid = false;
+        if (header.alg === 'HS256' && client.client_secret) {
+            const expected = crypto.createHmac('sha256', client.client_secret).update(signingInput).digest();
+            valid = expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+            request.clientAuthMethod = 'client_secret_jwt';
+        } else if (ASSERTION_ALGORITHMS[header.alg] && client.public_key) {
+            const { digest, dsaEncoding } = ASSERTION_ALGORITHMS[header.alg];
+            valid = crypto.verify(digest, signingInput, { key: client.public_key, dsaEncoding }, signature);
+            request.clientAuthMethod = 'private_key_jwt';
+        }
+        if (!valid) {
+            throw invalidClient('client_assertion signature is invalid');
+        }
+
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.includes(`${this.issuer}/token`) && !audiences.includes(this.issuer)) {
+            throw invalidClient('client_assertion aud must be the token endpoint or issuer');
+        }
+        if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+            throw invalidClient('client_assertion has expired');
+        }
+        if (!claims.jti || this.seenAssertions.has(claims.jti)) {
+            throw invalidClient('client_assertion jti is missing or was used before');
+        }
+        this.seenAssertions.add(claims.jti);
+        return client;
+    }
+
+    /**
+     * Token endpoint - every grant this library uses
+     */
+    private token(request: MockRequest): OAuthToken {
+        const params = request.params;
+        const client = this.authenticateClient(request);
+        const refreshToken = this.options.issueRefreshTokens !== false;
+
+        switch (params.grant_type) {
+            case 'authorization_code': {
+                const code = this.codes.get(params.code);
+                this.codes.delete(params.code);  // Single use, even when the exchange fails
+                if (!code || code.clientId !== client.client_id || code.expiresAt < Date.now()) {
+                    throw new MockOAuthError(400, 'invalid_grant', 'Authorization code is invalid, expired or already used');
+                }
+                if (params.redirect_uri !== code.redirectUri) {
+                    throw new MockOAuthError(400, 'invalid_grant', 'redirect_uri does not match the authorization request');
+                }
+                if (code.codeChallenge) {
+                    const verifier = params.code_verifier || '';
+                    const challenge = code.codeChallengeMethod === 'S256' ? crypto.createHash('sha256').update(verifier).digest('base64url') : verifier;
+                    if (challenge !== code.codeChallenge) {
+                        throw new MockOAuthError(400, 'invalid_grant', 'PKCE verification failed');
+                    }
+                } else if (params.code_verifier) {
+                    throw new MockOAuthError(400, 'invalid_grant', 'code_verifier sent without a code_challenge');
+                }
+                return this.tokenResponse(client.client_id, code.scope, { refreshToken, idToken: true, nonce: code.nonce });
+            }
+
+            case 'refresh_token': {
+                const stored = this.refreshTokens.get(params.refresh_token);
+                if (!stored || stored.clientId !== client.client_id) {
+                    throw new MockOAuthError(400, 'invalid_grant', 'Refresh token is invalid or revoked');
+                }
+                if (!this.options.refreshTokenRotation) {
+                    // Like most providers, keep the refresh token and leave it out of the response
+                    return this.tokenResponse(client.client_id, stored.scope, { refreshToken: false, idToken: true });
+                }
+                this.refreshTokens.delete(params.refresh_token);
+                return this.tokenResponse(client.client_id, stored.scope, { refreshToken: true, idToken: true });
+            }
+
+            case 'client_credentials':
+                if (request.clientAuthMethod === 'none') {
+                    throw new MockOAuthError(400, 'unauthorized_client', 'Public clients cannot use client_credentials');
+                }
+                return this.tokenResponse(client.client_id, params.scope || '', { refreshToken: false });
+
+            case 'urn:ietf:params:oauth:grant-type:device_code': {
+                const device = this.devices.get(params.device_code);
+                if (!device || device.clientId !== client.client_id) {
+                    throw new MockOAuthError(400, 'invalid_grant', 'Unknown device_code');
+                }
+                if (device.expiresAt < Date.now()) {
+                    throw new MockOAuthError(400, 'expired_token');
+                }
+                if (device.status === 'denied') {
+                    this.devices.delete(params.device_code);
+                    throw new MockOAuthError(400, 'access_denied');
+                }
+                if (device.status === 'pending') {
+                    // Polling faster than the interval earns slow_down; a little early is only timer jitter
+                    const now = Date.now();
+                    const tooSoon = device.lastPollAt !== undefined && now - device.lastPollAt < this.deviceInterval() * 1000 - 100;
+                    device.lastPollAt = now;
+                    throw new MockOAuthError(400, tooSoon ? 'slow_down' : 'authorization_pending');
+                }
+                this.devices.delete(params.device_code);
+                return this.tokenResponse(client.client_id, device.scope, { refreshToken, idToken: true });
+            }
+        }
+        throw new MockOAuthError(400, 'unsupported_grant_type');
+    }
+
+    private tokenResponse(clientId: string, requestedScope: string, issue: { refreshToken: boolean; idToken?: boolean; nonce?: string }): OAuthToken {
+        const scope = this.options.grantScope ? this.options.grantScope(requestedScope) : requestedScope;
+        const lifetime = this.options.accessTokenLifetimeSeconds === undefined ? 3600 : this.options.accessTokenLifetimeSeconds;
+
+        const token: OAuthToken = {
+            access_token: `mock-at-${crypto.randomBytes(16).toString('base64url')}`,
+            token_type: 'Bearer',
+            scope
+        };
+        this.accessTokens.set(token.access_token, { clientId, scope, expiresAt: lifetime === null ? undefined : Date.now() + lifetime * 1000 });
+        if (lifetime !== null) {
+            token.expires_in = lifetime;
+        }
+        if (issue.refreshToken) {
+            token.refresh_token = `mock-rt-${crypto.randomBytes(16).toString('base64url')}`;
+            this.refreshTokens.set(token.refresh_token, { clientId, scope });
+        }
+        if (issue.idToken && scope.split(' ').includes('openid')) {
+            token.id_token = this.idToken(clientId, issue.nonce);
+        }
+        return token;
+    }
+
+    /**
+     * An RS256 ID token, verifiable against the jwks endpoint
+     */
+    private idToken(clientId: string, nonce?: string): string {
+        const now = Math.floor(Date.now() / 1000);
+        const claims: Record<string, unknown> = {
+            iss: this.issuer,
+            sub: this.user.sub,
+            aud: clientId,
+            iat: now,
+            exp: now + 3600,
+            email: this.user.email,
+            email_verified: this.user.email !== undefined,
+            name: this.user.name
+        };
+        if (nonce !== undefined) {
+            claims.nonce = nonce;
+        }
+        const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+        const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid: this.jwk.kid })}.${encode(claims)}`;
+        return `${signingInput}.${crypto.sign('sha256', Buffer.from(signingInput), this.signingKey).toString('base64url')}`;
+    }
+
+    /**
+     * Revocation endpoint - unknown tokens are not an error (RFC 7009 section 2.2)
+     */
+    private revoke(request: MockRequest): void {
+        const client = this.authenticateClient(request);
+        const token = request.params.token;
+        for (const tokens of [this.accessTokens, this.refreshTokens]) {
+            if (tokens.get(token)?.clientId === client.client_id) {
+                tokens.delete(token);
+            }
+        }
+    }
+
+    private deviceInterval(): number {
+        return this.options.deviceInterval ?? 5;
+    }
+
+    /**
+     * Device authorization endpoint (RFC 8628 section 3.1)
+     */
+    private deviceCode(request: MockRequest): object {
+        // RFC 8628 section 3.1: confidential clients authenticate here as at the token endpoint
+        const client = this.authenticateClient(request);
+        const deviceCode = crypto.randomBytes(16).toString('base64url');
+        const letters = Array.from(crypto.randomBytes(8), byte => 'BCDFGHJKLMNPQRSTVWXZ'[byte % 20]).join('');
+        const userCode = `${letters.slice(0, 4)}-${letters.slice(4)}`;
+        this.devices.set(deviceCode, {
+            clientId: client.client_id,
+            userCode,
+            scope: request.params.scope || '',
+            status: 'pending',
+            expiresAt: Date.now() + DEVICE_CODE_LIFETIME_SECONDS * 1000
+        });
+        return {
+            device_code: deviceCode,
+            user_code: userCode,
+            verification_uri: `${this.issuer}/device`,
+            verification_uri_complete: `${this.issuer}/device?user_code=${encodeURIComponent(userCode)}`,
+            expires_in: DEVICE_CODE_LIFETIME_SECONDS,
+            interval: this.deviceInterval()
+        };
+    }
+
+    /**
+     * Verification page - visiting it with a user code gives the configured consent for that device
+     */
+    private verifyDevice(request: MockRequest, res: http.ServerResponse): void {
+        const userCode = request.params.user_code;
+        const device = [...this.devices.values()].find(candidate => candidate.userCode === userCode && candidate.status === 'pending');
+        if (!device) {
+            return this.sendHtml(res, userCode ? 400 : 200, `<title>Device</title><p>${userCode ? 'Unknown or used code' : 'Enter the code shown on your device'}</p>`);
+        }
+        device.status = this.options.consent === 'deny' ? 'denied' : 'approved';
+        this.sendHtml(res, 200, `<title>Device</title><p>Device ${device.status}</p>`);
+    }
+
+    /**
+     * The live access token a request carries - throws with a WWW-Authenticate challenge otherwise
+     */
+    private bearerToken(request: MockRequest): IssuedToken {
+        const authorization = request.headers.authorization || '';
+        const token = authorization.startsWith('Bearer ') ? this.accessTokens.get(authorization.slice('Bearer '.length)) : undefined;
+        if (!token) {
+            throw new MockOAuthError(401, 'invalid_token', 'Access token is missing or unknown', { 'WWW-Authenticate': 'Bearer error="invalid_token"' });
+        }
+        if (token.expiresAt !== undefined && token.expiresAt <= Date.now()) {
+            throw new MockOAuthError(401, 'invalid_token', 'Access token has expired',
+                { 'WWW-Authenticate': 'Bearer error="invalid_token", error_description="The access token expired"' });
+        }
+        return token;
+    }
+
+    private userinfo(request: MockRequest): object {
+        this.bearerToken(request);
+        return { ...this.user };
+    }
+
+    /**
+     * Protected resource - ?scope=x requires that scope, answering 403 insufficient_scope without it
+     */
+    private resource(request: MockRequest): object {
+        const token = this.bearerToken(request);
+        const required = request.params.scope;
+        if (required && !token.scope.split(' ').includes(required)) {
+            throw new MockOAuthError(403, 'insufficient_scope', `Requires ${required}`,
+                { 'WWW-Authenticate': `Bearer error="insufficient_scope", scope="${required}"` });
+        }
+        return { sub: this.user.sub, client_id: token.clientId, scope: token.scope };
+    }
+}
+
+/**
+ * Where a HeadlessBrowser visit ended
+ */
+export interface HeadlessPage {
+    url: string;
+    status: number;
+    body: string;
+}
+
+/**
+ * Stands in for the user's browser: follows redirects and submits form_post pages, as a browser
+ * would once the user approved everything. Pass `open` as the openBrowser option
+ */
+export class HeadlessBrowser {
+    readonly visits: Promise<HeadlessPage>[] = [];
+
+    /**
+     * Start visiting the URL and report the browser as opened at once - the flow answers the
+     * callback only after the code exchange, so waiting here would deadlock it
+     */
+    open = async (url: string): Promise<boolean> => {
+        const visit = this.visit(url);
+        visit.catch(() => {});  // Seen through lastPage() - not an unhandled rejection
+        this.visits.push(visit);
+        return true;
+    };
+
+    /**
+     * The page the most recent open() ended on, e.g. the callback's success or error page
+     */
+    lastPage(): Promise<HeadlessPage> {
+        const visit = this.visits[this.visits.length - 1];
+        return visit || Promise.reject(new Error('HeadlessBrowser has not opened anything'));
+    }
+
+    /**
+     * Load a URL, following redirects and auto-submitting forms, and return the final page
+     */
+    async visit(url: string, maxSteps: number = 10): Promise<HeadlessPage> {
+        let request: { url: string; method: string; body?: string } = { url, method: 'GET' };
+        for (let step = 0; step < maxSteps; step++) {
+            const response = await fetch(request.url, {
+                method: request.method,
+                body: request.body,
+                headers: request.body ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {},
+                redirect: 'manual'
+            });
+            const location = response.headers.get('Location');
+            if (response.status >= 300 && response.status < 400 && location) {
+                await response.body?.cancel();
+                request = { url: new URL(location, request.url).toString(), method: 'GET' };
+                continue;
+            }
+
+            const body = await response.text();
+            const form = HeadlessBrowser.autoSubmitForm(body, request.url);
+            if (!form) {
+                return { url: request.url, status: response.status, body };
+            }
+            request = { url: form.action, method: 'POST', body: new URLSearchParams(form.fields).toString() };
+        }
+        throw new Error(`HeadlessBrowser gave up after ${maxSteps} redirects or form posts`);
+    }
+
+    /**
+     * The form a page submits on load, as response_mode=form_post pages do
+     */
+    private static autoSubmitForm(html: string, baseUrl: string): { action: string; fields: Record<string, string> } | null {
+        if (!/onload=["'][^"']*submit\(\)/i.test(html)) {
+            return null;
+        }
+        const form = /<form[^>]*action="([^"]*)"/i.exec(html);
+        if (!form) {
+            return null;
+        }
+        const unescape = (value: string) => value
+            .replace(/&quot;/g, '"').replace(/&#39;/g, '\'').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+        const fields: Record<string, string> = {};
+        for (const input of html.matchAll(/<input[^>]*name="([^"]*)"[^>]*value="([^"]*)"/gi)) {
+            fields[unescape(input[1])] = unescape(input[2]);
+        }
+        return { action: new URL(unescape(form[1]), baseUrl).toString(), fields };
+    }
+}
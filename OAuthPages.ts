@@ -0,0 +1,82 @@
+/**
+ * Callback pages
+ * The pages the browser shows at the end of the authorization code flow - the bundled ones or the
+ * caller's own, with {{PLACEHOLDER}} variables substituted HTML-escaped
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface CallbackPageVariables {
+    appName: string;  // Caller's appName option, 'the application' by default
+    provider: string;  // Provider preset name, e.g. 'google' or 'generic'
+    scopes: string[];  // Granted scopes on success (requested ones when the provider did not say), requested ones on error
+    error?: string;  // Error code - error page only
+    errorDescription?: string;  // Error page only, when the provider or library gave one
+}
+
+/**
+ * Builds a whole page from the variables - values are raw, escape them with escapeHtml
+ */
+export type CallbackPageRenderer = (variables: CallbackPageVariables) => string | Promise<string>;
+
+/**
+ * Template HTML with {{APP_NAME}}, {{PROVIDER}}, {{SCOPES}}, {{ERROR}} and {{ERROR_DESCRIPTION}}, or a renderer
+ */
+export type CallbackPage = string | CallbackPageRenderer;
+
+const PLACEHOLDERS: Record<string, (variables: CallbackPageVariables) => string | undefined> = {
+    APP_NAME: (variables) => variables.appName,
+    PROVIDER: (variables) => variables.provider,
+    SCOPES: (variables) => variables.scopes.join(' '),
+    ERROR: (variables) => variables.error,
+    ERROR_DESCRIPTION: (variables) => variables.errorDescription
+};
+
+// Bundled pages by path - read once per process
+const pageCache = new Map<string, Promise<string>>();
+
+/**
+ * Escape text for use in HTML content and quoted attribute values
+ */
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Replace every known placeholder with its escaped value - missing values become empty,
+ * unknown placeholders are left alone
+ */
+export function renderTemplate(template: string, variables: CallbackPageVariables): string {
+    return template.replace(/\{\{\s*([A-Z_]+)\s*\}\}/g, (placeholder, name: string) =>
+        Object.hasOwn(PLACEHOLDERS, name) ? escapeHtml(PLACEHOLDERS[name](variables) ?? '') : placeholder);
+}
+
+/**
+ * Read a bundled page once and keep it - the pages do not change while the process runs
+ */
+function loadBundledPage(kind: 'success' | 'error'): Promise<string> {
+    const filePath = path.join(import.meta.dirname, `oauth-${kind}.html`);
+    let page = pageCache.get(filePath);
+    if (!page) {
+        page = fs.promises.readFile(filePath, 'utf8');
+        page.catch(() => pageCache.delete(filePath));
+        pageCache.set(filePath, page);
+    }
+    return page;
+}
+
+/**
+ * Build the success or error page - the caller's page when given, else the bundled one
+ */
+export async function renderCallbackPage(kind: 'success' | 'error', page: CallbackPage | undefined, variables: CallbackPageVariables): Promise<string> {
+    if (typeof page === 'function') {
+        return await page(variables);
+    }
+    return renderTemplate(page ?? await loadBundledPage(kind), variables);
+}
@@ -0,0 +1,202 @@
+/**
+ * Provider presets
+ * Well-known endpoints and the ways providers depart from RFC 6749 - scope delimiters,
+ * how to ask for a refresh token, tenants
+ */
+
+import type { OAuthCredentials } from './OAuthTokenManager.js';
+import type { ClientAuthMethod } from './OAuthClientAuth.js';
+import { OAuthCredentialsError } from './OAuthError.js';
+
+export type ProviderEndpoints = Partial<Pick<OAuthCredentials,
+    'auth_uri' | 'token_uri' | 'device_authorization_uri' | 'revocation_uri' | 'userinfo_uri' | 'issuer' | 'jwks_uri'>>;
+
+export interface OAuthProviderOptions {
+    tenant?: string;  /** Microsoft only - 'common' (default), 'organizations', 'consumers' or a tenant id or domain */
+    baseUrl?: string;  /** GitLab only - self-managed instance URL (default: https://gitlab.com) */
+}
+
+export interface OAuthProvider {
+    name: string;
+    scopeDelimiter: string;  /** Joins scopes in authorization and device requests - ' ' per RFC 6749 */
+    offlineAccess: 'access_type' | 'scope' | 'none';  /** How to ask for a refresh token: access_type=offline, the offline_access scope, or nothing (always or never issued) */
+    incrementalAuthorization?: boolean;  /** Understands include_granted_scopes */
+    canonicalScope?(scope: string): string;  /** The name the token response uses for a requested scope, where they differ */
+    endpoints?(options: OAuthProviderOptions): ProviderEndpoints;  /** Well-known endpoints - generic has none */
+    matches?(tokenUri: URL): boolean;  /** Recognize the provider from credentials that do not name it */
+}
+
+/**
+ * Client registration plus a provider name to take the endpoints from
+ */
+export interface ProviderCredentials {
+    provider: string;
+    client_id: string;
+    client_secret?: string;
+    token_endpoint_auth_method?: ClientAuthMethod;
+    private_key?: string;
+    private_key_id?: string;
+    redirect_uris?: string[];  /** Default: ['http://localhost:8080'] */
+    tenant?: string;
+    base_url?: string;
+}
+
+const google: OAuthProvider = {
+    name: 'google',
+    scopeDelimiter: ' ',
+    offlineAccess: 'access_type',
+    incrementalAuthorization: true,
+    canonicalScope: (scope) => scope === 'email' || scope === 'profile' ? `https://www.googleapis.com/auth/userinfo.${scope}` : scope,
+    endpoints: () => ({
+        auth_uri: 'https://accounts.google.com/o/oauth2/v2/auth',
+        token_uri: 'https://oauth2.googleapis.com/token',
+        device_authorization_uri: 'https://oauth2.googleapis.com/device/code',
+        revocation_uri: 'https://oauth2.googleapis.com/revoke',
+        userinfo_uri: 'https://openidconnect.googleapis.com/v1/userinfo',
+        issuer: 'https://accounts.google.com',
+        jwks_uri: 'https://www.googleapis.com/oauth2/v3/certs'
+    }),
+    matches: (tokenUri) => tokenUri.hostname === 'oauth2.googleapis.com' || tokenUri.hostname === 'accounts.google.com'
+};
+
+// Microsoft identity platform v2.0 - no revocation endpoint, refresh tokens come with the offline_access scope
+const microsoft: OAuthProvider = {
+    name: 'microsoft',
+    scopeDelimiter: ' ',
+    offlineAccess: 'scope',
+    // Scopes without a resource are Microsoft Graph's, and are reported with its URL
+    canonicalScope: (scope) => scope.includes('/') || ['openid', 'profile', 'email', 'offline_access'].includes(scope) ? scope : `https://graph.microsoft.com/${scope}`,
+    endpoints: ({ tenant = 'common' }) => {
+        const base = `https://login.microsoftonline.com/${encodeURIComponent(tenant)}`;
+        return {
+            auth_uri: `${base}/oauth2/v2.0/authorize`,
+            token_uri: `${base}/oauth2/v2.0/token`,
+            device_authorization_uri: `${base}/oauth2/v2.0/devicecode`,
+            userinfo_uri: 'https://graph.microsoft.com/oidc/userinfo',
+            issuer: 'https://login.microsoftonline.com/{tenantid}/v2.0',
+            jwks_uri: `${base}/discovery/v2.0/keys`
+        };
+    },
+    matches: (tokenUri) => tokenUri.hostname === 'login.microsoftonline.com'
+};
+
+// GitHub answers form-encoded unless asked for JSON (OAuthHttp always asks), returns the granted
+// scopes comma-separated, and omits expires_in for tokens that never expire
+const github: OAuthProvider = {
+    name: 'github',
+    scopeDelimiter: ' ',
+    offlineAccess: 'none',
+    endpoints: () => ({
+        auth_uri: 'https://github.com/login/oauth/authorize',
+        token_uri: 'https://github.com/login/oauth/access_token',
+        device_authorization_uri: 'https://github.com/login/device/code'
+    }),
+    matches: (tokenUri) => tokenUri.hostname === 'github.com'
+};
+
+// GitLab always issues refresh tokens
+const gitlab: OAuthProvider = {
+    name: 'gitlab',
+    scopeDelimiter: ' ',
+    offlineAccess: 'none',
+    endpoints: ({ baseUrl = 'https://gitlab.com' }) => {
+        const base = baseUrl.replace(/\/+$/, '');
+        return {
+            auth_uri: `${base}/oauth/authorize`,
+            token_uri: `${base}/oauth/token`,
+            device_authorization_uri: `${base}/oauth/authorize_device`,
+            revocation_uri: `${base}/oauth/revoke`,
+            userinfo_uri: `${base}/oauth/userinfo`,
+            issuer: base,
+            jwks_uri: `${base}/oauth/discovery/keys`
+        };
+    },
+    matches: (tokenUri) => tokenUri.hostname === 'gitlab.com'
+};
+
+// Anything else - plain RFC 6749, without Google's access_type and include_granted_scopes.
+// Servers that understand them can opt in with registerProvider
+const generic: OAuthProvider = {
+    name: 'generic',
+    scopeDelimiter: ' ',
+    offlineAccess: 'none'
+};
+
+const providers = new Map<string, OAuthProvider>([google, microsoft, github, gitlab, generic].map(provider => [provider.name, provider]));
+
+/**
+ * Add or replace a provider preset
+ */
+export function registerProvider(provider: OAuthProvider): void {
+    providers.set(provider.name, provider);
+}
+
+/**
+ * Look up a provider preset by name - throws OAuthCredentialsError for unknown names
+ */
+export function getProvider(name: string): OAuthProvider {
+    const provider = providers.get(name);
+    if (!provider) {
+        throw new OAuthCredentialsError(`Unknown OAuth provider: ${name} (known: ${[...providers.keys()].join(', ')})`);
+    }
+    return provider;
+}
+
+/**
+ * The provider credentials belong to - named explicitly, recognized from token_uri, or generic
+ */
+export function providerFor(credentials: { provider?: string; token_uri?: string }): OAuthProvider {
+    if (credentials.provider) {
+        return getProvider(credentials.provider);
+    }
+
+    let tokenUri: URL;
+    try {
+        tokenUri = new URL(credentials.token_uri);
+    } catch {
+        return generic;
+    }
+    return [...providers.values()].find(provider => provider.matches?.(tokenUri)) || generic;
+}
+
+/**
+ * Split a scope string into scopes - accepts space and comma delimiters, whatever the provider uses
+ */
+export function splitScope(scope: string | undefined): string[] {
+    return (scope || '').split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Format scopes for a request to this provider
+ */
+export function formatScope(scope: string | string[], provider: OAuthProvider): string {
+    return (Array.isArray(scope) ? scope : splitScope(scope)).join(provider.scopeDelimiter);
+}
+
+/**
+ * Check whether a credentials object should be completed from a provider preset
+ */
+export function isProviderCredentials(data: any): data is ProviderCredentials {
+    return !!data && typeof data === 'object' && typeof data.provider === 'string' && !!data.client_id && !data.token_uri;
+}
+
+/**
+ * Build complete OAuthCredentials from a provider preset and a client registration
+ */
+export function credentialsForProvider(config: ProviderCredentials): OAuthCredentials {
+    const provider = getProvider(config.provider);
+    if (!provider.endpoints) {
+        throw new OAuthCredentialsError(`Provider ${provider.name} has no well-known endpoints - give auth_uri and token_uri`);
+    }
+
+    return {
+        client_id: config.client_id,
+        client_secret: config.client_secret,
+        token_endpoint_auth_method: config.token_endpoint_auth_method,
+        private_key: config.private_key,
+        private_key_id: config.private_key_id,
+        redirect_uris: config.redirect_uris?.length ? config.redirect_uris : ['http://localhost:8080'],
+        ...provider.endpoints({ tenant: config.tenant, baseUrl: config.base_url }),
+        provider: provider.name
+    } as OAuthCredentials;
+}
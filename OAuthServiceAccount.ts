@@ -0,0 +1,205 @@
+/**
+ * Non-interactive OAuth grants for daemons and service accounts
+ * - client_credentials (RFC 6749 section 4.4)
+ * - JWT-bearer assertions signed with a service-account key (RFC 7523)
+ *
+ * Neither grant issues refresh tokens, so OAuthTokenManager re-mints through
+ * the authentication callback whenever the cached token expires.
+ */
+
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import type { OAuthClient, OAuthToken } from './OAuthTokenManager.js';
+import { OAuthCredentialsError } from './OAuthError.js';
+import { postTokenRequest } from './OAuthHttp.js';
+import { clientFromCredentials, type ClientAuthCredentials } from './OAuthClientAuth.js';
+import { describeError, silentLogger, type OAuthLogger } from './OAuthLogger.js';
+
+/**
+ * Service-account key file as downloaded from Google Cloud (other providers use the same fields)
+ */
+export interface ServiceAccountKey {
+    type?: string;  // 'service_account' for Google keys
+    client_email: string;
+    private_key: string;
+    private_key_id?: string;
+    client_id?: string;
+    token_uri: string;
+}
+
+export interface ClientCredentialsGrantOptions {
+    scope?: string;
+    audience?: string;  /** Some providers (Auth0, Okta) select the API by audience instead of scope */
+}
+
+export interface JwtBearerGrantOptions {
+    scope: string;
+    subject?: string;  /** Impersonate this user (domain-wide delegation) */
+    lifetimeSeconds?: number;  /** Assertion lifetime (default and maximum for Google: 3600) */
+}
+
+/**
+ * client_credentials grant - the client authenticates as itself, no user involved
+ */
+export class OAuthClientCredentialsGrant {
+    private client: OAuthClient;
+    private logger: OAuthLogger;
+
+    constructor(credentials: ClientAuthCredentials, logger: OAuthLogger = silentLogger) {
+        this.client = clientFromCredentials(credentials);
+        this.logger = logger;
+    }
+
+    /**
+     * Get an access token for the client itself, or null on failure
+     */
+    async getToken(options: ClientCredentialsGrantOptions = {}): Promise<OAuthToken | null> {
+        try {
+            return await this.getTokenOrThrow(options);
+        } catch (error) {
+            this.logger.error(`Client credentials grant failed: ${describeError(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * Get an access token for the client itself - throws OAuthError on failure
+     */
+    async getTokenOrThrow(options: ClientCredentialsGrantOptions = {}): Promise<OAuthToken> {
+        const params: Record<string, string> = {
+            grant_type: 'client_credentials'
+        };
+        if (options.scope) {
+            params.scope = options.scope;
+        }
+        if (options.audience) {
+            params.audience = options.audience;
+        }
+
+        return postTokenRequest(this.client.tokenUri, params, 'token_request', { clientAuth: this.client, logger: this.logger });
+    }
+
+    /**
+     * Build an onAuthenticationNeeded callback for OAuthTokenManager.getValidToken
+     * With throwErrors the callback throws OAuthError instead of resolving null
+     */
+    authenticationCallback(options: ClientCredentialsGrantOptions = {}, throwErrors: boolean = false): () => Promise<OAuthToken | null> {
+        return () => throwErrors ? this.getTokenOrThrow(options) : this.getToken(options);
+    }
+}
+
+/**
+ * JWT-bearer grant - exchange a self-signed assertion from a service-account key for an access token
+ */
+export class OAuthJwtBearerGrant {
+    private key: ServiceAccountKey;
+    private logger: OAuthLogger;
+
+    constructor(key: ServiceAccountKey, logger: OAuthLogger = silentLogger) {
+        this.key = key;
+        this.logger = logger;
+    }
+
+    /**
+     * Load a service-account key from a JSON file
+     */
+    static loadKeyFromFile(filePath: string, logger: OAuthLogger = silentLogger): ServiceAccountKey | null {
+        try {
+            return OAuthJwtBearerGrant.loadKeyFromFileOrThrow(filePath);
+        } catch (error) {
+            logger.error(`Error loading service account key: ${describeError(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * Load a service-account key from a JSON file - throws OAuthCredentialsError on failure
+     */
+    static loadKeyFromFileOrThrow(filePath: string): ServiceAccountKey {
+        if (!fs.existsSync(filePath)) {
+            throw new OAuthCredentialsError(`Service account key file not found: ${filePath}`);
+        }
+
+        let key: any;
+        try {
+            key = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            throw new OAuthCredentialsError(`Service account key file is not valid JSON: ${filePath}`, error);
+        }
+        if (!OAuthJwtBearerGrant.isServiceAccountKey(key)) {
+            throw new OAuthCredentialsError('Invalid service account key - missing client_email, private_key or token_uri');
+        }
+        return key;
+    }
+
+    /**
+     * Check whether a parsed JSON document looks like a service-account key
+     */
+    static isServiceAccountKey(data: any): data is ServiceAccountKey {
+        return !!data && typeof data === 'object' && !!data.client_email && !!data.private_key && !!data.token_uri;
+    }
+
+    /**
+     * Create a signed RS256 assertion (RFC 7523 section 3)
+     */
+    createAssertion(options: JwtBearerGrantOptions): string {
+        const now = Math.floor(Date.now() / 1000);
+        const header: Record<string, string> = { alg: 'RS256', typ: 'JWT' };
+        if (this.key.private_key_id) {
+            header.kid = this.key.private_key_id;
+        }
+
+        const claims: Record<string, string | number> = {
+            iss: this.key.client_email,
+            scope: options.scope,
+            aud: this.key.token_uri,
+            iat: now,
+            exp: now + (options.lifetimeSeconds || 3600)
+        };
+        if (options.subject) {
+            claims.sub = options.subject;
+        }
+
+        const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+        const signingInput = `${encode(header)}.${encode(claims)}`;
+        const signature = crypto.sign('RSA-SHA256', Buffer.from(signingInput), this.key.private_key).toString('base64url');
+        return `${signingInput}.${signature}`;
+    }
+
+    /**
+     * Get an access token for the service account (or the impersonated subject), or null on failure
+     */
+    async getToken(options: JwtBearerGrantOptions): Promise<OAuthToken | null> {
+        try {
+            return await this.getTokenOrThrow(options);
+        } catch (error) {
+            this.logger.error(`JWT-bearer grant failed: ${describeError(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * Get an access token for the service account - throws OAuthError on failure
+     */
+    async getTokenOrThrow(options: JwtBearerGrantOptions): Promise<OAuthToken> {
+        let assertion: string;
+        try {
+            assertion = this.createAssertion(options);
+        } catch (error) {
+            throw new OAuthCredentialsError('Could not sign JWT assertion with the service account private key', error);
+        }
+
+        return postTokenRequest(this.key.token_uri, {
+            grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+            assertion
+        }, 'token_request', { logger: this.logger });
+    }
+
+    /**
+     * Build an onAuthenticationNeeded callback for OAuthTokenManager.getValidToken
+     * With throwErrors the callback throws OAuthError instead of resolving null
+     */
+    authenticationCallback(options: JwtBearerGrantOptions, throwErrors: boolean = false): () => Promise<OAuthToken | null> {
+        return () => throwErrors ? this.getTokenOrThrow(options) : this.getToken(options);
+    }
+}
@@ -0,0 +1,213 @@
+/**
+ * OAuthTokenManager against the mock authorization server - storage, refresh, rotation,
+ * rejected refresh tokens, retries, timeouts, revocation and clock skew
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OAuthTokenManager } from './OAuthTokenManager.js';
+import { MemoryTokenStore } from './TokenStore.js';
+import { clientFromCredentials } from './OAuthClientAuth.js';
+import { OAuthAuthenticationRequiredError, OAuthInvalidGrantError, OAuthTimeoutError } from './OAuthError.js';
+import { MockOAuthServer } from './testing.js';
+
+const FAST_RETRY = { retries: 2, minDelayMs: 1, maxDelayMs: 5, timeoutMs: 2000 };
+
+describe('OAuthTokenManager', () => {
+    let server: MockOAuthServer;
+    let manager: OAuthTokenManager;
+
+    before(async () => {
+        server = await MockOAuthServer.start();
+    });
+    after(() => server.close());
+
+    beforeEach(() => {
+        server.requests.length = 0;
+        Object.assign(server.options, { accessTokenLifetimeSeconds: 3600, refreshTokenRotation: false });
+        manager = new OAuthTokenManager({ store: new MemoryTokenStore(), retry: FAST_RETRY });
+    });
+
+    const client = () => clientFromCredentials(server.credentials());
+    const tokenRequests = () => server.requests.filter(request => request.endpoint === 'token');
+
+    it('returns a stored token that is still valid without calling the server', async () => {
+        const issued = server.issueTokens('read');
+        await manager.saveToken(issued);
+
+        const token = await manager.getValidTokenOrThrow(client());
+        assert.equal(token.access_token, issued.access_token);
+        assert.equal(tokenRequests().length, 0);
+    });
+
+    it('refreshes a token that expires within the buffer and keeps the refresh token', async () => {
+        server.options.accessTokenLifetimeSeconds = 60;  // Inside the default 5 minute buffer
+        const issued = server.issueTokens('read');
+        await manager.saveToken(issued);
+        const refreshed = new Promise(resolve => manager.once('refreshed', resolve));
+
+        const token = await manager.getValidTokenOrThrow(client());
+        assert.notEqual(token.access_token, issued.access_token);
+        assert.equal(token.refresh_token, issued.refresh_token);
+        assert.equal((await manager.getStoredToken()).access_token, token.access_token);
+        await refreshed;
+
+        const [request] = tokenRequests();
+        assert.equal(request.params.grant_type, 'refresh_token');
+        assert.equal(request.clientAuthMethod, 'client_secret_post');
+    });
+
+    it('stores the rotated refresh token, and the old one stops working', async () => {
+        Object.assign(server.options, { accessTokenLifetimeSeconds: 60, refreshTokenRotation: true });
+        const issued = server.issueTokens('read');
+        await manager.saveToken(issued);
+
+        const token = await manager.getValidTokenOrThrow(client());
+        assert.notEqual(token.refresh_token, issued.refresh_token);
+        assert.equal((await manager.getStoredToken()).refresh_token, token.refresh_token);
+        await assert.rejects(manager.refreshTokenOrThrow(client(), issued.refresh_token), OAuthInvalidGrantError);
+    });
+
+    it('shares one refresh among concurrent callers', async () => {
+        Object.assign(server.options, { accessTokenLifetimeSeconds: 60, refreshTokenRotation: true, latencyMs: 50 });
+        try {
+            await manager.saveToken(server.issueTokens('read'));
+            const tokens = await Promise.all([1, 2, 3].map(() => manager.getValidTokenOrThrow(client())));
+
+            assert.equal(new Set(tokens.map(token => token.access_token)).size, 1);
+            assert.equal(tokenRequests().length, 1);
+        } finally {
+            server.options.latencyMs = 0;
+        }
+    });
+
+    it('reports reauth-required when the refresh token was revoked', async () => {
+        server.options.accessTokenLifetimeSeconds = 60;
+        await manager.saveToken(server.issueTokens('read'));
+        server.revokeRefreshTokens();
+        const reauthRequired = new Promise(resolve => manager.once('reauth-required', resolve));
+
+        await assert.rejects(manager.getValidTokenOrThrow(client()), OAuthAuthenticationRequiredError);
+        assert.ok(await reauthRequired instanceof OAuthInvalidGrantError);
+    });
+
+    it('calls the authentication callback once refresh is impossible', async () => {
+        server.options.accessTokenLifetimeSeconds = 60;
+        await manager.saveToken(server.issueTokens('read'));
+        server.failNext('token', { error: 'invalid_grant', errorDescription: 'Token has been expired or revoked.' });
+        server.options.accessTokenLifetimeSeconds = 3600;
+        const fresh = server.issueTokens('read');
+
+        const token = await manager.getValidTokenOrThrow(client(), async () => fresh);
+        assert.equal(token.access_token, fresh.access_token);
+        assert.equal((await manager.getStoredToken()).access_token, fresh.access_token);
+    });
+
+    it('retries 5xx responses from the token endpoint', async () => {
+        server.options.accessTokenLifetimeSeconds = 60;
+        await manager.saveToken(server.issueTokens('read'));
+        server.failNext('token', { status: 503 }, 2);
+
+        await manager.getValidTokenOrThrow(client());
+        assert.equal(tokenRequests().length, 3);
+    });
+
+    it('keeps the default retry settings for fields given as undefined', async () => {
+        const configured = new OAuthTokenManager({
+            store: new MemoryTokenStore(),
+            retry: { retries: undefined, timeoutMs: undefined, minDelayMs: 1, maxDelayMs: 5 }
+        });
+        const issued = server.issueTokens('read');
+        server.failNext('token', { status: 503 }, 3);
+
+        await assert.rejects(configured.refreshTokenOrThrow(client(), issued.refresh_token), { status: 503 });
+        assert.equal(tokenRequests().length, 3);
+    });
+
+    it('gives up on a token endpoint slower than the timeout', async () => {
+        const impatient = new OAuthTokenManager({ store: new MemoryTokenStore(), retry: { retries: 0, timeoutMs: 100 } });
+        const issued = server.issueTokens('read');
+        server.failNext('token', { delayMs: 1000 });
+
+        await assert.rejects(impatient.refreshTokenOrThrow(client(), issued.refresh_token), OAuthTimeoutError);
+    });
+
+    it('revokes the refresh token and deletes the stored token on logout', async () => {
+        const issued = server.issueTokens('read');
+        await manager.saveToken(issued);
+
+        await manager.logoutOrThrow(client());
+        assert.equal(await manager.getStoredToken(), null);
+        const [revocation] = server.requests.filter(request => request.endpoint === 'revoke');
+        assert.equal(revocation.params.token, issued.refresh_token);
+        await assert.rejects(manager.refreshTokenOrThrow(client(), issued.refresh_token), OAuthInvalidGrantError);
+    });
+
+    it('keeps the stored token when revocation fails, unless forced', async () => {
+        await manager.saveToken(server.issueTokens('read'));
+        server.failNext('revoke', { status: 500 }, 3);
+
+        await assert.rejects(manager.logoutOrThrow(client()));
+        assert.ok(await manager.getStoredToken());
+
+        server.failNext('revoke', { status: 500 }, 3);
+        await manager.logoutOrThrow(client(), { force: true });
+        assert.equal(await manager.getStoredToken(), null);
+    });
+});
+
+describe('OAuthTokenManager clock', () => {
+    let server: MockOAuthServer;
+
+    before(async () => {
+        server = await MockOAuthServer.start();
+    });
+    after(() => server.close());
+
+    function fakeClock(start: number) {
+        let time = start;
+        return { now: () => time, advance: (ms: number) => { time += ms; } };
+    }
+
+    it('decides expiry by the injected clock', async () => {
+        const start = Date.UTC(2030, 0, 1);
+        const clock = fakeClock(start);
+        const manager = new OAuthTokenManager({ store: new MemoryTokenStore(), clock });
+        await manager.saveToken({ access_token: 'at', token_type: 'Bearer', expires_in: 3600 });
+
+        const token = await manager.getStoredToken();
+        assert.equal(token.created_at, start);
+        assert.equal(token.expires_at, start + 3600 * 1000);
+        assert.equal(token.clock_skew_ms, undefined);
+
+        clock.advance(54 * 60 * 1000);
+        assert.equal(manager.isTokenExpired(token), false);
+        clock.advance(60 * 1000);  // Now inside the 5 minute buffer
+        assert.equal(manager.isTokenExpired(token), true);
+    });
+
+    it('keeps expiry on the server clock when the local clock is off', async () => {
+        const clock = fakeClock(Date.now() - 2 * 60 * 60 * 1000);  // Two hours slow
+        const warnings: string[] = [];
+        const manager = new OAuthTokenManager({
+            store: new MemoryTokenStore(),
+            clock,
+            retry: FAST_RETRY,
+            logger: { debug() {}, info() {}, warn: (message) => warnings.push(message), error() {} }
+        });
+        await manager.saveToken({ ...server.issueTokens('read'), expires_in: 0 });
+
+        await manager.getValidTokenOrThrow(clientFromCredentials(server.credentials()));  // Refreshes - the response has a Date header
+        const token = await manager.getStoredToken();
+        assert.ok(Math.abs(token.clock_skew_ms - 2 * 60 * 60 * 1000) < 5000);
+        assert.ok(Math.abs(token.expires_at - (Date.now() + 3600 * 1000)) < 5000);
+        assert.match(warnings.join('\n'), /behind the token server/);
+
+        const info = await manager.getTokenInfo();
+        assert.ok(info.valid);
+        assert.ok(Math.abs(info.expiresInSeconds - 3600) < 5);
+
+        clock.advance(56 * 60 * 1000);
+        assert.equal(manager.isTokenExpired(token), true);
+    });
+});
@@ -3,89 +3,332 @@
  * Handles OAuth token storage, validation, and refresh for any OAuth provider
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
-import * as querystring from 'querystring';
-import * as http from 'http';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import * as readline from 'readline/promises';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { OAuthDeviceFlow, type DeviceAuthorizationInfo } from './OAuthDeviceFlow.js';
+import { OAuthClientCredentialsGrant, OAuthJwtBearerGrant } from './OAuthServiceAccount.js';
+import { FileTokenStore, type TokenStore } from './TokenStore.js';
+import { OAuthAuthenticationRequiredError, OAuthCancelledError, OAuthCredentialsError, OAuthError, OAuthInvalidGrantError, OAuthTimeoutError } from './OAuthError.js';
+import { postRevocationRequest, postTokenRequest, serverTimeOf, type RetryOptions } from './OAuthHttp.js';
+import { LoopbackServer, type LoopbackCallback } from './OAuthLoopback.js';
+import { clientFromCredentials, type ClientAuthMethod } from './OAuthClientAuth.js';
+import { checkCredentials, credentialsFromDocument, readOAuthCredentials, resolveOAuthCredentials, type CredentialsSource } from './OAuthCredentialResolver.js';
+import { renderCallbackPage, type CallbackPage, type CallbackPageVariables } from './OAuthPages.js';
+import { describeError, silentLogger, type OAuthLogger } from './OAuthLogger.js';
+import { clockSkew, systemClock, type OAuthClock } from './OAuthClock.js';
+import { decodeIdToken, identityFromClaims, verifyIdToken, type IdTokenClaims, type OAuthIdentity } from './OIDC.js';
+import { formatScope, providerFor, splitScope, type OAuthProvider } from './OAuthProviders.js';
+import type { TokenEncryptionOptions } from './TokenEncryption.js';
 
 const execAsync = promisify(exec);
 
 export interface OAuthToken {
     access_token: string;
     refresh_token?: string;
-    expires_in: number;
+    expires_in?: number; // Omitted by some providers (GitHub) for tokens that never expire
     token_type: string;
     scope?: string;
+    id_token?: string; // OpenID Connect ID token, when the scope includes 'openid'
 }
 
 export interface StoredOAuthToken extends OAuthToken {
-    expires_at?: number; // Timestamp when token expires
-    created_at?: number; // Timestamp when token was created
+    expires_at?: number; // Timestamp when token expires - by the token server's clock when clock_skew_ms is set
+    created_at?: number; // Timestamp when token was created - likewise
+    clock_skew_ms?: number; // Token server's clock minus ours when the token was saved
+    client_id?: string; // Client the token was issued to (multi-account storage)
+    account?: string; // Account the token belongs to, e.g. the login_hint (multi-account storage)
+    id_token_claims?: IdTokenClaims; // Claims of the ID token verified against the issuer's keys at login - absent when it could not be verified
+    declined_scopes?: string; // Requested scopes the user did not grant - not asked for again
 }
 
 export interface OAuthClient {
     clientId: string;
-    clientSecret: string;
+    clientSecret?: string; // Omitted for public clients and private_key_jwt
     tokenUri: string;
+    revocationUri?: string; // RFC 7009 endpoint, needed only for revokeToken and logout
+    authMethod?: ClientAuthMethod; // Default: client_secret_post with a secret, none without
+    privateKey?: string; // PEM key for private_key_jwt
+    privateKeyId?: string; // kid of privateKey, when the server needs it to pick the key
+}
+
+/**
+ * Identifies one stored token among several kept by the same manager
+ */
+export interface TokenSelector {
+    clientId?: string;
+    account?: string; // e.g. the email passed as login_hint
+    scope?: string; // Requested scope set - order and duplicates do not matter
+}
+
+/**
+ * Summary of one stored token, as returned by listAccounts
+ */
+export interface StoredAccount {
+    key: string;
+    clientId?: string;
+    account?: string;
+    scope?: string;
+    expiresAt?: Date;
+    hasRefreshToken: boolean;
+}
+
+export interface LogoutOptions {
+    revoke?: 'refresh_token' | 'access_token' | 'both'; // Default: the refresh token if stored, else the access token
+    force?: boolean; // Delete the local token even if revocation fails
 }
 
 export interface TokenManagerOptions {
-    tokenFileName?: string; // Default: 'token.json'
-    tokenDirectory?: string; // Default: current directory
+    tokenFileName?: string; // Default: 'token.json' - also the key used in a custom store
+    selector?: TokenSelector; // Keep this manager's token under a per client/account/scope key derived from tokenFileName
+    tokenDirectory?: string; // Required unless store is given
+    store?: TokenStore; // Where tokens live (default: FileTokenStore on tokenDirectory)
+    encryption?: TokenEncryptionOptions; // Encrypt the default file store at rest (ignored with a custom store)
     expirationBufferMinutes?: number; // Default: 5 minutes
     maxTokenLifetimeHours?: number; // Maximum token lifetime in hours (overrides server expiration if shorter)
+    retry?: RetryOptions | false; // Retries and timeout for refresh and revocation requests (default: 2 retries, 30s timeout)
+    clock?: OAuthClock; // Time source for expiry decisions (default: the system clock)
+    logger?: OAuthLogger; // Default: silent
+}
+
+/**
+ * Normalize a scope string so equivalent scope sets compare equal
+ */
+export function normalizeScope(scope: string | undefined): string {
+    return [...new Set(splitScope(scope))].sort().join(' ');
+}
+
+/**
+ * Events emitted by OAuthTokenManager - by the instance that performed the refresh
+ */
+export interface OAuthTokenManagerEvents {
+    'refreshed': [token: OAuthToken];
+    'refresh-failed': [error: unknown];
+    'expired': [token: StoredOAuthToken]; // The access token expired and could not be renewed
+    'reauth-required': [error: OAuthError]; // Only a new authorization can help - refresh token rejected or missing
+}
+
+export interface AutoRefreshOptions {
+    jitterSeconds?: number; // Refresh up to this much earlier, at random, so instances do not refresh together (default: 30)
+    retrySeconds?: number; // Wait after a failed refresh before trying again (default: 60)
 }
 
-export class OAuthTokenManager {
-    private tokenPath: string;
+/**
+ * Scopes in requested that granted does not include - either may use space or comma delimiters.
+ * With a provider, names it reports differently from how they are requested still match
+ */
+export function missingScopes(granted: string | undefined, requested: string | undefined, provider?: OAuthProvider): string[] {
+    const canonical = (scope: string) => provider?.canonicalScope?.(scope) ?? scope;
+    const grantedScopes = new Set(splitScope(granted).map(canonical));
+    return normalizeScope(requested).split(' ').filter(scope => scope && !grantedScopes.has(canonical(scope)));
+}
+
+// Refreshes in progress, per store and key - shared by every manager instance in the process
+const refreshesInFlight = new WeakMap<TokenStore, Map<string, Promise<OAuthToken | null>>>();
+
+const MAX_TIMER_MS = 0x7fffffff; // setTimeout fires immediately for longer delays
+const NON_EXPIRING_RECHECK_MS = 60 * 60 * 1000; // Look again for tokens without expires_at - a new login may replace them
+const CLOCK_SKEW_WARNING_MS = 60 * 1000; // Worth telling the user their clock is off
+
+export class OAuthTokenManager extends EventEmitter<OAuthTokenManagerEvents> {
+    private options: TokenManagerOptions;
+    private store: TokenStore;
+    private baseKey: string; // tokenFileName - keyed entries are derived from it
+    private tokenKey: string;
+    private selector?: TokenSelector;
     private expirationBuffer: number;
     private maxTokenLifetime?: number; // Maximum token lifetime in milliseconds
+    private logger: OAuthLogger;
+    private clock: OAuthClock;
+    private clockSkewMs?: number; // Last skew seen in a token response - for tokens that came without one
+    private autoRefreshTimer?: NodeJS.Timeout;
 
     constructor(options: TokenManagerOptions = {}) {
-        const tokenFileName = options.tokenFileName || 'token.json';
-        const tokenDirectory = options.tokenDirectory;
-        if (!tokenDirectory)
-            throw new Error('tokenDirectory must be specified');
-        this.tokenPath = path.join(tokenDirectory, tokenFileName);
+        super();
+        this.options = options;
+        this.logger = options.logger || silentLogger;
+        this.clock = options.clock || systemClock;
+        this.baseKey = options.tokenFileName || 'token.json';
+        this.selector = options.selector;
+        this.tokenKey = options.selector ? this.keyFor(options.selector) : this.baseKey;
+        if (options.store) {
+            this.store = options.store;
+        } else {
+            if (!options.tokenDirectory)
+                throw new Error('tokenDirectory or store must be specified');
+            this.store = new FileTokenStore(options.tokenDirectory, { encryption: options.encryption, retry: options.retry, logger: this.logger });
+        }
         this.expirationBuffer = (options.expirationBufferMinutes || 5) * 60 * 1000; // Convert to milliseconds
         this.maxTokenLifetime = options.maxTokenLifetimeHours ? options.maxTokenLifetimeHours * 60 * 60 * 1000 : undefined; // Convert hours to milliseconds
     }
 
     /**
-     * Check if a stored token exists
+     * Store key for a client/account/scope combination: 'token.json' becomes 'token.<hash>.json'
      */
-    hasStoredToken(): boolean {
-        return fs.existsSync(this.tokenPath);
+    keyFor(selector: TokenSelector): string {
+        const identity = [selector.clientId || '', (selector.account || '').toLowerCase(), normalizeScope(selector.scope)].join('\n');
+        const hash = crypto.createHash('sha256').update(identity).digest('hex').slice(0, 12);
+        const extension = path.extname(this.baseKey);
+        return `${this.baseKey.slice(0, this.baseKey.length - extension.length)}.${hash}${extension}`;
     }
 
     /**
-     * Get stored token if it exists
+     * Get a manager for one client/account/scope combination, sharing this manager's store and settings
      */
-    getStoredToken(): StoredOAuthToken | null {
-        if (!this.hasStoredToken()) {
+    forAccount(selector: TokenSelector): OAuthTokenManager {
+        return new OAuthTokenManager({ ...this.options, store: this.store, selector });
+    }
+
+    /**
+     * List the tokens stored under this manager's tokenFileName, keyed or not
+     */
+    async listAccounts(): Promise<StoredAccount[]> {
+        const extension = path.extname(this.baseKey);
+        const stem = this.baseKey.slice(0, this.baseKey.length - extension.length);
+        const isKeyedEntry = (key: string) => key.startsWith(`${stem}.`) && key.endsWith(extension)
+            && /^[0-9a-f]{12}$/.test(key.slice(stem.length + 1, key.length - extension.length));
+
+        const accounts: StoredAccount[] = [];
+        for (const key of await this.store.list()) {
+            if (key !== this.baseKey && !isKeyedEntry(key)) {
+                continue;
+            }
+            const token = await this.store.get(key);
+            if (!token) {
+                continue;
+            }
+            accounts.push({
+                key,
+                clientId: token.client_id,
+                account: token.account || token.id_token_claims?.email,
+                scope: token.scope,
+                expiresAt: token.expires_at ? new Date(token.expires_at) : undefined,
+                hasRefreshToken: !!token.refresh_token
+            });
+        }
+        return accounts;
+    }
+
+    /**
+     * Move a token saved without a selector (by older versions, or by a manager
+     * without one) to this manager's key when it was granted every requested scope
+     * Returns true when a token was adopted
+     */
+    async adoptUnkeyedToken(): Promise<boolean> {
+        if (!this.selector || this.tokenKey === this.baseKey || await this.hasStoredToken()) {
+            return false;
+        }
+
+        const unkeyedToken = await this.store.get(this.baseKey);
+        if (!unkeyedToken || unkeyedToken.client_id) {
+            return false;
+        }
+        if (this.selector.account && unkeyedToken.account && unkeyedToken.account.toLowerCase() !== this.selector.account.toLowerCase()) {
+            return false;
+        }
+        const grantedScopes = new Set(normalizeScope(unkeyedToken.scope).split(' '));
+        if (!normalizeScope(this.selector.scope).split(' ').filter(Boolean).every(scope => grantedScopes.has(scope))) {
+            return false;
+        }
+
+        await this.store.set(this.tokenKey, {
+            ...unkeyedToken,
+            client_id: this.selector.clientId,
+            account: this.selector.account || unkeyedToken.account
+        });
+        await this.store.delete(this.baseKey);
+        return true;
+    }
+
+    /**
+     * The token stored for a smaller scope request of this manager's client and account - one
+     * granted some but not all of the requested scopes, and nothing else. Incremental authorization
+     * extends it instead of starting over. The widest match wins
+     */
+    async findNarrowerToken(provider?: OAuthProvider): Promise<StoredOAuthToken | null> {
+        const narrower = await this.findOtherToken((token) => missingScopes(this.selector?.scope, token.scope, provider).length === 0
+            && missingScopes(token.scope, this.selector?.scope, provider).length > 0, (a, b) => a > b);
+        return narrower?.token || null;
+    }
+
+    /**
+     * A manager for the token stored for a wider scope request of this manager's client and
+     * account - one granted every requested scope. The narrowest match wins, so switching back
+     * to a smaller scope set reuses a token instead of asking the user again
+     */
+    async findCoveringToken(provider?: OAuthProvider): Promise<OAuthTokenManager | null> {
+        const covering = await this.findOtherToken((token) => missingScopes(token.scope, this.selector?.scope, provider).length === 0, (a, b) => a < b);
+        if (!covering) {
             return null;
         }
+        const manager = this.forAccount({ clientId: covering.token.client_id, account: covering.token.account, scope: covering.token.scope });
+        manager.tokenKey = covering.key;
+        return manager;
+    }
+
+    /**
+     * A matching token of this manager's client and account stored under another key - among
+     * several, the one whose scope count prefers picks
+     */
+    private async findOtherToken(
+        matches: (token: StoredOAuthToken) => boolean,
+        prefers: (scopeCount: number, bestScopeCount: number) => boolean
+    ): Promise<{ key: string; token: StoredOAuthToken } | null> {
+        if (!this.selector) {
+            return null;
+        }
+        const sameAccount = (account: string | undefined) => (account || '').toLowerCase() === (this.selector?.account || '').toLowerCase();
+
+        let best: { key: string; token: StoredOAuthToken } | null = null;
+        for (const account of await this.listAccounts()) {
+            if (account.key === this.tokenKey || account.clientId !== this.selector.clientId || !account.scope) {
+                continue;
+            }
+            const token = await this.store.get(account.key);
+            if (!token || !sameAccount(token.account) || !matches(token)) {
+                continue;
+            }
+            if (!best || prefers(splitScope(token.scope).length, splitScope(best.token.scope).length)) {
+                best = { key: account.key, token };
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Remove the stored token for one account - pass a selector or an entry from listAccounts
+     */
+    async removeAccount(account: TokenSelector | StoredAccount): Promise<void> {
+        await this.store.delete('key' in account ? account.key : this.keyFor(account));
+    }
+
+    /**
+     * Check if a stored token exists
+     */
+    async hasStoredToken(): Promise<boolean> {
+        return (await this.getStoredToken()) !== null;
+    }
 
+    /**
+     * Get stored token if it exists
+     */
+    async getStoredToken(): Promise<StoredOAuthToken | null> {
         try {
-            const tokenContent = fs.readFileSync(this.tokenPath, 'utf8');
-            const token = JSON.parse(tokenContent) as StoredOAuthToken;
-            return token;
+            return await this.store.get(this.tokenKey);
         } catch (error) {
-            console.error('Error reading stored token:', error);
+            this.logger.error(`Error reading stored token: ${describeError(error)}`);
             return null;
         }
-    }    /**
+    }
+
+    /**
      * Check if a token is expired or will expire soon
      */
     isTokenExpired(token: StoredOAuthToken): boolean {
-        if (!token.expires_at) {
-            // If no expiration time stored, consider it expired for safety
-            return true;
-        }
-
-        const now = Date.now();
+        const now = this.serverTime(token);
         
         // Check if the token has exceeded our custom maximum lifetime
         if (this.maxTokenLifetime && token.created_at) {
@@ -95,99 +338,402 @@ export class OAuthTokenManager {
             }
         }
         
+        if (!token.expires_at) {
+            // The server gave no expires_in - the token is good until revoked
+            return false;
+        }
+
         // Check standard OAuth expiration
         return now >= (token.expires_at - this.expirationBuffer);
     }
 
+    /**
+     * The current time by the clock the token's timestamps use - the server's, when its skew is known
+     */
+    private serverTime(token: StoredOAuthToken): number {
+        return this.clock.now() + (token.clock_skew_ms ?? 0);
+    }
+
     /**
      * Check if a token is valid (exists and not expired)
      */
-    isTokenValid(): boolean {
-        const token = this.getStoredToken();
+    async isTokenValid(): Promise<boolean> {
+        const token = await this.getStoredToken();
         if (!token) {
             return false;
         }
         return !this.isTokenExpired(token);
-    }    /**
+    }
+
+    /**
      * Save token with expiration information
      */
-    saveToken(token: OAuthToken): void {
-        const now = Date.now();
+    async saveToken(token: OAuthToken): Promise<void> {
+        // Timestamps follow the server's clock, so a local clock that is off does not skew expiry -
+        // measured from this response's Date header, else the last one seen
+        const localNow = this.clock.now();
+        const serverTime = serverTimeOf(token);
+        if (serverTime !== undefined) {
+            this.clockSkewMs = clockSkew(serverTime, localNow);
+            if (Math.abs(this.clockSkewMs) >= CLOCK_SKEW_WARNING_MS) {
+                const direction = this.clockSkewMs > 0 ? 'behind' : 'ahead of';
+                this.logger.warn(`Local clock is ${Math.round(Math.abs(this.clockSkewMs) / 1000)} s ${direction} the token server - using the server's time for expiry`);
+            }
+        }
+        const now = localNow + (this.clockSkewMs ?? 0);
         
         // Calculate expiration time - use the shorter of server expiration or custom max lifetime
-        let expiresAt = now + (token.expires_in * 1000); // Convert seconds to milliseconds
+        let expiresAt = typeof token.expires_in === 'number' ? now + (token.expires_in * 1000) : undefined; // Convert seconds to milliseconds
         
         if (this.maxTokenLifetime) {
             const customExpiresAt = now + this.maxTokenLifetime;
-            expiresAt = Math.min(expiresAt, customExpiresAt);
+            expiresAt = Math.min(expiresAt ?? customExpiresAt, customExpiresAt);
         }
         
         const storedToken: StoredOAuthToken = {
             ...token,
-            created_at: now,
-            expires_at: expiresAt
+            created_at: now
         };
-
-        // Ensure directory exists
-        const tokenDir = path.dirname(this.tokenPath);
-        if (!fs.existsSync(tokenDir)) {
-            fs.mkdirSync(tokenDir, { recursive: true });
+        if (this.clockSkewMs !== undefined) {
+            storedToken.clock_skew_ms = this.clockSkewMs;
+        } else {
+            delete storedToken.clock_skew_ms; // A re-saved stored token - its timestamps were just recomputed locally
+        }
+        if (expiresAt !== undefined) {
+            storedToken.expires_at = expiresAt;
+        }
+        if (this.selector?.clientId) {
+            storedToken.client_id = this.selector.clientId;
+        }
+        if (this.selector?.account) {
+            storedToken.account = this.selector.account;
+        }
+        if (!storedToken.scope && this.selector?.scope) {
+            // RFC 6749 section 5.1: an omitted scope means the requested scope was granted
+            storedToken.scope = this.selector.scope;
         }
 
-        fs.writeFileSync(this.tokenPath, JSON.stringify(storedToken, null, 2), 'utf8');
+        await this.store.set(this.tokenKey, storedToken);
     }
 
     /**
      * Delete stored token
      */
-    deleteStoredToken(): void {
-        if (this.hasStoredToken()) {
-            fs.unlinkSync(this.tokenPath);
+    async deleteStoredToken(): Promise<void> {
+        await this.store.delete(this.tokenKey);
+    }
+
+    /**
+     * Revoke a token at the provider (RFC 7009) - returns false on failure
+     */
+    async revokeToken(client: OAuthClient, token: string, tokenTypeHint?: 'refresh_token' | 'access_token'): Promise<boolean> {
+        try {
+            await this.revokeTokenOrThrow(client, token, tokenTypeHint);
+            return true;
+        } catch (error) {
+            this.logger.error(`Token revocation failed: ${describeError(error)}`);
+            return false;
         }
     }
 
     /**
-     * Refresh an expired token using the refresh token
+     * Revoke a token at the provider (RFC 7009) - throws OAuthError on failure.
+     * A token the provider reports as already invalid counts as revoked
      */
-    async refreshToken(client: OAuthClient, refreshToken: string): Promise<OAuthToken | null> {
-        const refreshBody = querystring.stringify({
-            grant_type: 'refresh_token',
-            refresh_token: refreshToken,
-            client_id: client.clientId,
-            client_secret: client.clientSecret
-        });
+    async revokeTokenOrThrow(client: OAuthClient, token: string, tokenTypeHint?: 'refresh_token' | 'access_token'): Promise<void> {
+        if (!client.revocationUri) {
+            throw new OAuthCredentialsError('No revocation endpoint configured for this client');
+        }
 
+        const params: Record<string, string> = { token };
+        if (tokenTypeHint) {
+            params.token_type_hint = tokenTypeHint;
+        }
+
+        await postRevocationRequest(client.revocationUri, params, { clientAuth: client, retry: this.options.retry, logger: this.logger });
+        this.logger.info(`Revoked ${tokenTypeHint || 'token'} at the provider`);
+    }
+
+    /**
+     * Revoke the stored token at the provider, then delete it locally - returns false on failure
+     */
+    async logout(client: OAuthClient, options: LogoutOptions = {}): Promise<boolean> {
         try {
-            const response = await fetch(client.tokenUri, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/x-www-form-urlencoded'
-                },
-                body: refreshBody
-            });
+            await this.logoutOrThrow(client, options);
+            return true;
+        } catch (error) {
+            this.logger.error(`Logout failed: ${describeError(error)}`);
+            return false;
+        }
+    }
 
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.error('Token refresh failed:', response.status, response.statusText, errorText);
-                return null;
+    /**
+     * Revoke the stored token at the provider, then delete it locally - throws OAuthError on failure.
+     * The local token is kept when revocation fails so it can be retried, unless force is set
+     */
+    async logoutOrThrow(client: OAuthClient, options: LogoutOptions = {}): Promise<void> {
+        const token = await this.getStoredToken();
+        if (!token) {
+            return;
+        }
+
+        // Revoking the refresh token also invalidates its access tokens at most providers
+        const revoke = options.revoke || (token.refresh_token ? 'refresh_token' : 'access_token');
+        try {
+            if ((revoke === 'refresh_token' || revoke === 'both') && token.refresh_token) {
+                await this.revokeTokenOrThrow(client, token.refresh_token, 'refresh_token');
+            }
+            if (revoke === 'access_token' || revoke === 'both') {
+                await this.revokeTokenOrThrow(client, token.access_token, 'access_token');
+            }
+        } catch (error) {
+            if (!options.force) {
+                throw error;
             }
+            this.logger.warn(`Revocation failed, deleting local token anyway: ${describeError(error)}`);
+        }
 
-            const tokenResponse = await response.json() as OAuthToken;
-            return tokenResponse;
+        await this.deleteStoredToken();
+    }
 
+    /**
+     * Refresh an expired token using the refresh token, or null on failure
+     */
+    async refreshToken(client: OAuthClient, refreshToken: string): Promise<OAuthToken | null> {
+        try {
+            return await this.refreshTokenOrThrow(client, refreshToken);
         } catch (error) {
-            console.error('Error refreshing token:', error);
+            this.logger.error(`Token refresh failed: ${describeError(error)}`);
             return null;
         }
     }
 
+    /**
+     * Refresh an expired token using the refresh token - throws OAuthError on failure,
+     * OAuthInvalidGrantError when the refresh token has been revoked or has expired
+     */
+    async refreshTokenOrThrow(client: OAuthClient, refreshToken: string): Promise<OAuthToken> {
+        return postTokenRequest(client.tokenUri, {
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken
+        }, 'refresh', { clientAuth: client, retry: this.options.retry, logger: this.logger });
+    }
+
+    /**
+     * Refresh the stored token even though it has not expired - for an access token the
+     * resource server rejected. Shares the refresh with concurrent callers, and skips it when
+     * the stored token is no longer the rejected one (someone else already refreshed).
+     * Throws OAuthAuthenticationRequiredError when no refresh token is stored
+     */
+    async forceRefreshOrThrow(client: OAuthClient, rejectedAccessToken?: string): Promise<OAuthToken> {
+        const token = await this.coalescedRefresh(client, rejectedAccessToken ?? (await this.getStoredToken())?.access_token);
+        if (!token) {
+            throw new OAuthAuthenticationRequiredError('refresh', 'No refresh token stored');
+        }
+        return token;
+    }
+
+    /**
+     * Refresh the stored token, sharing one refresh among all concurrent callers
+     * in this process that use the same store and key
+     */
+    private coalescedRefresh(client: OAuthClient, rejectedAccessToken?: string): Promise<OAuthToken | null> {
+        let inFlight = refreshesInFlight.get(this.store);
+        if (!inFlight) {
+            inFlight = new Map();
+            refreshesInFlight.set(this.store, inFlight);
+        }
+
+        const pending = inFlight.get(this.tokenKey);
+        if (pending) {
+            return pending;
+        }
+
+        const refresh = this.lockedRefresh(client, rejectedAccessToken).finally(() => inFlight.delete(this.tokenKey));
+        inFlight.set(this.tokenKey, refresh);
+        return refresh;
+    }
+
+    /**
+     * Read, refresh and save under the store's lock so only one process refreshes.
+     * Providers that rotate refresh tokens invalidate the old one, so a process that
+     * waited must use what the winner saved rather than refresh again
+     */
+    private async lockedRefresh(client: OAuthClient, rejectedAccessToken?: string): Promise<OAuthToken | null> {
+        const release = await this.store.lock?.(this.tokenKey);
+        try {
+            // Re-read - another process may have refreshed while we waited for the lock
+            const currentToken = await this.getStoredToken();
+            if (!currentToken?.refresh_token) {
+                return null;
+            }
+            const stillUsable = rejectedAccessToken !== undefined
+                ? currentToken.access_token !== rejectedAccessToken
+                : !this.isTokenExpired(currentToken);
+            if (stillUsable) {
+                return currentToken;
+            }
+
+            let refreshedToken: StoredOAuthToken;
+            try {
+                refreshedToken = await this.refreshTokenOrThrow(client, currentToken.refresh_token);
+            } catch (error) {
+                this.emit('refresh-failed', error);
+                if (error instanceof OAuthInvalidGrantError) {
+                    this.emit('reauth-required', error);
+                }
+                throw error;
+            }
+
+            // Preserve the refresh token and ID token if not provided in the response
+            if (!refreshedToken.refresh_token) {
+                refreshedToken.refresh_token = currentToken.refresh_token;
+            }
+            if (!refreshedToken.id_token && currentToken.id_token) {
+                refreshedToken.id_token = currentToken.id_token;
+            }
+            if (currentToken.declined_scopes) {
+                refreshedToken.declined_scopes = currentToken.declined_scopes;
+            }
+            if (currentToken.id_token_claims) {
+                // A refreshed ID token is not verified - it names the same user (OpenID Connect Core 12.2)
+                refreshedToken.id_token_claims = currentToken.id_token_claims;
+            }
+            await this.saveToken(refreshedToken);
+            this.emit('refreshed', refreshedToken);
+            return refreshedToken;
+        } finally {
+            await release?.();
+        }
+    }
+
+    /**
+     * Refresh the stored token in the background ahead of its expiry, so callers of
+     * getValidToken never wait for it. Outcomes are reported through events; the timer
+     * does not keep the process alive. Keeps watching after a failure, so a new login
+     * resumes refreshing. Calling again replaces the previous schedule
+     */
+    startAutoRefresh(client: OAuthClient, options: AutoRefreshOptions = {}): void {
+        this.stopAutoRefresh();
+        const jitter = (options.jitterSeconds ?? 30) * 1000;
+        const retry = (options.retrySeconds ?? 60) * 1000;
+
+        let jitterOffset = Math.random() * jitter; // Chosen once per access token
+        let rejectedRefreshToken: string | undefined; // Not worth retrying - wait for a new login
+        let reportedExpired: string | undefined; // Access token already reported by 'expired'
+        let earliestRefresh = 0; // Tokens shorter-lived than the buffer must not cause a refresh loop
+
+        const schedule = (delay: number) => {
+            this.autoRefreshTimer = setTimeout(run, Math.min(Math.max(delay, 0), MAX_TIMER_MS));
+            this.autoRefreshTimer.unref();
+        };
+
+        const reportExpired = (token: StoredOAuthToken) => {
+            if (reportedExpired !== token.access_token) {
+                reportedExpired = token.access_token;
+                this.emit('expired', token);
+                if (!token.refresh_token) {
+                    this.emit('reauth-required', new OAuthAuthenticationRequiredError('refresh', 'Token expired and no refresh token is stored'));
+                }
+            }
+        };
+
+        const run = async () => {
+            const token = await this.getStoredToken();
+            if (!this.autoRefreshTimer) {
+                return; // Stopped while reading
+            }
+            if (!token) {
+                schedule(retry); // Nothing to refresh until someone logs in
+                return;
+            }
+            if (!token.expires_at) {
+                schedule(NON_EXPIRING_RECHECK_MS);
+                return;
+            }
+
+            const due = Math.max(token.expires_at - this.expirationBuffer - jitterOffset, earliestRefresh);
+            const now = this.serverTime(token);
+            if (now < due) {
+                schedule(due - now);
+                return;
+            }
+
+            if (!token.refresh_token || token.refresh_token === rejectedRefreshToken) {
+                // Cannot renew - report the expiry when it happens, then watch for a new login
+                if (now < token.expires_at) {
+                    schedule(token.expires_at - now);
+                } else {
+                    reportExpired(token);
+                    schedule(retry);
+                }
+                return;
+            }
+
+            try {
+                // Refresh even though the token is not quite expired - unless another caller already did
+                await this.coalescedRefresh(client, token.access_token);
+                jitterOffset = Math.random() * jitter;
+                earliestRefresh = this.serverTime(token) + retry;
+                if (this.autoRefreshTimer) {
+                    schedule(0);
+                }
+            } catch (error) {
+                // 'refresh-failed' and, for a rejected refresh token, 'reauth-required' are already emitted
+                this.logger.warn(`Background token refresh failed: ${describeError(error)}`);
+                if (error instanceof OAuthInvalidGrantError) {
+                    rejectedRefreshToken = token.refresh_token;
+                }
+                if (this.serverTime(token) >= token.expires_at) {
+                    reportExpired(token);
+                }
+                if (this.autoRefreshTimer) {
+                    schedule(error instanceof OAuthInvalidGrantError ? 0 : retry);
+                }
+            }
+        };
+
+        schedule(0);
+    }
+
+    /**
+     * Stop the background refresh started by startAutoRefresh
+     */
+    stopAutoRefresh(): void {
+        clearTimeout(this.autoRefreshTimer);
+        this.autoRefreshTimer = undefined;
+    }
+
     /**
      * Get a valid token (existing, refreshed, or null if authentication needed)
      * This method does not perform initial authentication - that's left to the caller
      */
     async getValidToken(client: OAuthClient, onAuthenticationNeeded?: () => Promise<OAuthToken | null>): Promise<OAuthToken | null> {
+        try {
+            return await this.obtainValidToken(client, onAuthenticationNeeded, false);
+        } catch (error) {
+            this.logger.error(`Error getting valid token: ${describeError(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * Get a valid token - throws OAuthError instead of returning null.
+     * Only a rejected refresh token (invalid_grant) falls through to onAuthenticationNeeded;
+     * other refresh failures such as network errors are thrown.
+     * Throws OAuthAuthenticationRequiredError when no token can be obtained
+     */
+    async getValidTokenOrThrow(client: OAuthClient, onAuthenticationNeeded?: () => Promise<OAuthToken | null>): Promise<OAuthToken> {
+        const token = await this.obtainValidToken(client, onAuthenticationNeeded, true);
+        if (!token) {
+            throw new OAuthAuthenticationRequiredError('refresh', 'No valid token stored and no authentication callback succeeded');
+        }
+        return token;
+    }
+
+    private async obtainValidToken(client: OAuthClient, onAuthenticationNeeded: (() => Promise<OAuthToken | null>) | undefined, strict: boolean): Promise<OAuthToken | null> {
         // Check for existing token
-        const existingToken = this.getStoredToken();
+        const existingToken = await this.getStoredToken();
         
         if (existingToken) {
             // Check if token is still valid
@@ -197,23 +743,26 @@ export class OAuthTokenManager {
             
             // Try to refresh the token if we have a refresh token
             if (existingToken.refresh_token) {
-                const refreshedToken = await this.refreshToken(client, existingToken.refresh_token);
-                if (refreshedToken) {
-                    // Preserve the refresh token if not provided in the response
-                    if (!refreshedToken.refresh_token && existingToken.refresh_token) {
-                        refreshedToken.refresh_token = existingToken.refresh_token;
+                try {
+                    const refreshedToken = await this.coalescedRefresh(client);
+                    if (refreshedToken) {
+                        return refreshedToken;
                     }
-                    this.saveToken(refreshedToken);
-                    return refreshedToken;
+                } catch (error) {
+                    if (strict && !(error instanceof OAuthInvalidGrantError)) {
+                        throw error;
+                    }
+                    this.logger.warn(`Token refresh failed, authentication needed: ${describeError(error)}`);
                 }
             }
         }
         
         // No valid token available, call authentication callback if provided
         if (onAuthenticationNeeded) {
+            this.logger.debug('No valid stored token - calling authentication callback');
             const newToken = await onAuthenticationNeeded();
             if (newToken) {
-                this.saveToken(newToken);
+                await this.saveToken(newToken);
                 return newToken;
             }
         }
@@ -224,14 +773,16 @@ export class OAuthTokenManager {
     /**
      * Get token information for debugging
      */
-    getTokenInfo(): {
+    async getTokenInfo(): Promise<{
         exists: boolean;
         valid: boolean;
         expiresAt?: Date;
+        expiresInSeconds?: number; // Until expiresAt by the server's clock - negative once expired
         createdAt?: Date;
         hasRefreshToken?: boolean;
-    } {
-        const token = this.getStoredToken();
+        identity?: OAuthIdentity;
+    }> {
+        const token = await this.getStoredToken();
         
         if (!token) {
             return { exists: false, valid: false };
@@ -241,10 +792,20 @@ export class OAuthTokenManager {
             exists: true,
             valid: !this.isTokenExpired(token),
             expiresAt: token.expires_at ? new Date(token.expires_at) : undefined,
+            expiresInSeconds: token.expires_at ? Math.round((token.expires_at - this.serverTime(token)) / 1000) : undefined,
             createdAt: token.created_at ? new Date(token.created_at) : undefined,
-            hasRefreshToken: !!token.refresh_token
+            hasRefreshToken: !!token.refresh_token,
+            identity: token.id_token_claims ? identityFromClaims(token.id_token_claims) : undefined
         };
     }
+
+    /**
+     * Who the stored token belongs to, from its verified OpenID Connect ID token - null without one
+     */
+    async getIdentity(): Promise<OAuthIdentity | null> {
+        const token = await this.getStoredToken();
+        return token?.id_token_claims ? identityFromClaims(token.id_token_claims) : null;
+    }
 }
 
 export default OAuthTokenManager;
@@ -256,10 +817,19 @@ export default OAuthTokenManager;
 
 export interface OAuthCredentials {
     client_id: string;
-    client_secret: string;
+    client_secret?: string;  /** Omitted for public clients, which authenticate with PKCE alone */
+    token_endpoint_auth_method?: ClientAuthMethod;  /** How the client authenticates (default: client_secret_post, or none without a secret) */
+    private_key?: string;  /** PEM private key for private_key_jwt */
+    private_key_id?: string;  /** kid for private_key_jwt assertions */
     redirect_uris: string[];
     auth_uri: string;
     token_uri: string;
+    device_authorization_uri?: string;  /** RFC 8628 device endpoint, needed only for the device flow */
+    revocation_uri?: string;  /** RFC 7009 revocation endpoint, needed only for revokeToken and logout */
+    userinfo_uri?: string;  /** OpenID Connect UserInfo endpoint, filled in by discovery */
+    provider?: string;  /** Provider preset ('google', 'microsoft', 'github', 'gitlab', 'generic') - recognized from token_uri when omitted */
+    issuer?: string;  /** OpenID Connect issuer - with jwks_uri, enables ID token verification */
+    jwks_uri?: string;  /** Provider's signing keys for ID token verification */
 }
 
 export interface OAuthGetTokenOptions {
@@ -269,6 +839,46 @@ export interface OAuthGetTokenOptions {
     loginHint?: string;  /** Pre-select this email in Google account picker */
     prompt?: 'none' | 'consent' | 'select_account';  /** Force account selection or consent */
     signal?: AbortSignal;  // Allow cancellation of OAuth flow
+    pkce?: boolean;  /** Send an RFC 7636 S256 code challenge (default: true) */
+    nonce?: string;  /** OpenID Connect nonce - generated automatically when scope includes 'openid' */
+    onAuthorizationUrl?: (url: string, browserOpened: boolean) => void;  /** Show the authorization URL - default writes it to stderr only when no browser could be opened */
+    openBrowser?: (url: string) => Promise<boolean>;  /** Open the authorization URL, resolving false if that failed - default: the system browser */
+    retry?: RetryOptions | false;  /** Retries and timeout for the code exchange (default: 2 retries, 30s timeout) */
+    includeGrantedScopes?: boolean;  /** Incremental authorization - keep earlier grants (providers that support include_granted_scopes) */
+    bindAddress?: string;  /** Interface for the redirect server, e.g. '127.0.0.1' or '::1' (default: the redirect URI's IP literal, else all interfaces) */
+    ephemeralPort?: boolean;  /** Let the OS pick the redirect server's port - providers following RFC 8252 accept any loopback port */
+    responseMode?: 'query' | 'form_post';  /** How the provider returns the code (default: the provider's, usually query) */
+    manual?: boolean;  /** Copy-paste mode for remote shells - no browser or local server; the user pastes the code or the redirected URL */
+    promptForCode?: (authorizationUrl: string) => Promise<string>;  /** Manual mode - read what the user pasted (default: a line from stdin) */
+    appName?: string;  /** Name shown on the callback pages (default: 'the application') */
+    successPage?: CallbackPage;  /** Page shown after authorization - template HTML or a render function (default: oauth-success.html) */
+    errorPage?: CallbackPage;  /** Page shown when authorization fails - template HTML or a render function (default: oauth-error.html) */
+}
+
+/**
+ * PKCE parameters for one authorization request (RFC 7636)
+ */
+export interface PKCEPair {
+    codeVerifier: string;
+    codeChallenge: string;
+    codeChallengeMethod: 'S256';
+}
+
+/**
+ * Generate a PKCE code verifier and its S256 code challenge
+ */
+export function generatePKCE(): PKCEPair {
+    // 32 random bytes give a 43 character base64url verifier, the minimum RFC 7636 allows
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    return { codeVerifier, codeChallenge, codeChallengeMethod: 'S256' };
+}
+
+/**
+ * Generate an unguessable value for the OAuth state parameter
+ */
+export function generateState(): string {
+    return crypto.randomBytes(16).toString('base64url');
 }
 
 /**
@@ -277,128 +887,159 @@ export interface OAuthGetTokenOptions {
  */
 export class OAuthGetToken {
     private credentials: OAuthCredentials;
-    private successHtmlPath: string;
-    private errorHtmlPath: string;
+    private provider: OAuthProvider;
+    private logger: OAuthLogger;
 
-    constructor(credentials: OAuthCredentials) {
+    constructor(credentials: OAuthCredentials, logger: OAuthLogger = silentLogger) {
         this.credentials = credentials;
-        this.successHtmlPath = path.join(import.meta.dirname, 'oauth-success.html');
-        this.errorHtmlPath = path.join(import.meta.dirname, 'oauth-error.html');
+        this.provider = providerFor(credentials);
+        this.logger = logger;
     }
 
     /**
      * Load credentials from a JSON file
      */
-    static loadCredentialsFromFile(filePath: string, credentialsKey?: string): OAuthCredentials | null {
-        if (!fs.existsSync(filePath)) {
-            console.error(`Credentials file not found: ${filePath}`);
+    static loadCredentialsFromFile(filePath: string, credentialsKey?: string, logger: OAuthLogger = silentLogger): OAuthCredentials | null {
+        try {
+            return OAuthGetToken.loadCredentialsFromFileOrThrow(filePath, credentialsKey);
+        } catch (error) {
+            logger.error(`Error loading credentials: ${describeError(error)}`);
             return null;
         }
+    }
+
+    /**
+     * Load credentials from a JSON file - throws OAuthCredentialsError on failure
+     */
+    static loadCredentialsFromFileOrThrow(filePath: string, credentialsKey?: string): OAuthCredentials {
+        // Google's "installed"/"web", Azure and GitHub exports, provider presets
+        return readOAuthCredentials(filePath, { credentialsKey, flow: 'browser' });
+    }
 
+    /**
+     * Answer the browser with the success or error page. A failing custom page must not hide
+     * the outcome of the flow - the bundled page is shown instead
+     */
+    private async answerBrowser(respond: LoopbackCallback['respond'], kind: 'success' | 'error', variables: Partial<CallbackPageVariables>, options: OAuthGetTokenOptions): Promise<void> {
+        const pageVariables: CallbackPageVariables = {
+            appName: options.appName || 'the application',
+            provider: this.provider.name,
+            scopes: splitScope(options.scope),
+            ...variables
+        };
+        const status = kind === 'success' ? 200 : 400;
         try {
-            const credentialsContent = fs.readFileSync(filePath, 'utf8');
-            const credentialsJson = JSON.parse(credentialsContent);
-            
-            // Support different credential structures (e.g., Google's "installed" key)
-            const credentials = credentialsKey ? credentialsJson[credentialsKey] : credentialsJson;
-            
-            if (!credentials.client_id || !credentials.client_secret || !credentials.auth_uri || !credentials.token_uri) {
-                throw new Error('Invalid credentials format - missing required fields');
-            }
-            
-            return credentials as OAuthCredentials;
+            respond(status, await renderCallbackPage(kind, kind === 'success' ? options.successPage : options.errorPage, pageVariables));
         } catch (error) {
-            console.error(`Error loading credentials: ${error}`);
-            return null;
+            this.logger.warn(`Custom ${kind} page failed, showing the bundled one: ${describeError(error)}`);
+            respond(status, await renderCallbackPage(kind, undefined, pageVariables));
         }
     }
 
     /**
-     * Start local HTTP server for OAuth redirect
+     * Wait for the authorization response and return the code, with the browser still waiting for
+     * its page. Provider errors and a wrong state are answered here and thrown
      */
-    private startLocalOAuthServer(redirectUri: string): Promise<http.Server> {
-        return new Promise((resolve, reject) => {
-            const server = http.createServer();
-            const urlParts = new URL(redirectUri);
-            const port = parseInt(urlParts.port) || 8080;
-            
-            console.log(`Starting local OAuth server on ${redirectUri}`);
-            
-            server.listen(port, () => {
-                console.log(`Started local OAuth server on port ${port}`);
-                resolve(server);
-            });
-            
-            server.on('error', (error) => {
-                console.error(`Failed to start local server: ${error.message}`);
-                reject(error);
+    private async waitForOAuthCallback(server: LoopbackServer, expectedState: string, options: OAuthGetTokenOptions): Promise<{ code: string; respond: LoopbackCallback['respond'] }> {
+        const timeoutSeconds = options.timeoutSeconds || 300;
+        this.logger.info(`Waiting for OAuth callback (timeout: ${timeoutSeconds} seconds)`);
+        const { params, respond } = await server.waitForCallback(timeoutSeconds, options.signal);
+
+        if (params.state !== expectedState) {
+            // Missing or foreign state - possible CSRF or stray callback, never use its code
+            this.logger.warn('OAuth callback rejected: state parameter missing or mismatched');
+            const error = new OAuthError({
+                error: 'invalid_state',
+                errorDescription: 'State parameter missing or mismatched in authorization response',
+                phase: 'callback'
             });
-        });
+            await this.answerBrowser(respond, 'error', { error: error.error, errorDescription: error.errorDescription }, options);
+            throw error;
+        }
+
+        if (params.error) {
+            this.logger.error(`OAuth error: ${params.error}`);
+            await this.answerBrowser(respond, 'error', { error: params.error, errorDescription: params.error_description }, options);
+            throw OAuthError.fromResponse(params, undefined, 'callback');
+        }
+
+        return { code: params.code, respond };
     }
 
     /**
-     * Wait for OAuth callback - Uses modern WHATWG URL API
+     * Default manual-mode prompt - asks on stderr so stdout stays clean, reads a line from stdin
      */
-    private waitForOAuthCallback(server: http.Server, timeoutSeconds: number = 300, signal?: AbortSignal): Promise<string | null> {
-        return new Promise((resolve) => {
-            console.log(`Waiting for OAuth callback (timeout: ${timeoutSeconds} seconds)...`);
-            
-            const timeout = setTimeout(() => {
-                console.error('Timeout waiting for OAuth callback');
-                resolve(null);
-            }, timeoutSeconds * 1000);
-
-            // Handle abort signal
-            if (signal) {
-                signal.addEventListener('abort', () => {
-                    console.log('OAuth callback cancelled by user');
-                    clearTimeout(timeout);
-                    resolve(null);
-                });
+    private static async promptOnStdin(_authorizationUrl: string, signal: AbortSignal): Promise<string> {
+        const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+        try {
+            return await rl.question('Paste the authorization code, or the whole address of the page the browser ended on: ', { signal });
+        } finally {
+            rl.close();
+        }
+    }
+
+    /**
+     * Manual mode - get the code from what the user pasted: the bare code, or the redirected URL
+     * (whose state is checked). Throws OAuthError for provider errors, a wrong state, timeout or cancellation
+     */
+    private async readPastedCode(authorizationUrl: string, expectedState: string, options: OAuthGetTokenOptions): Promise<string> {
+        const timeoutSeconds = options.timeoutSeconds || 300;
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+        const timeout = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+
+        let input: string;
+        try {
+            const prompt = options.promptForCode || ((url: string) => OAuthGetToken.promptOnStdin(url, controller.signal));
+            input = await Promise.race([
+                prompt(authorizationUrl),
+                new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () => reject(
+                    options.signal?.aborted ? new OAuthCancelledError('callback') : new OAuthTimeoutError('callback', 'Timeout waiting for the pasted authorization code')
+                ), { once: true }))
+            ]);
+        } finally {
+            clearTimeout(timeout);
+            options.signal?.removeEventListener('abort', onAbort);
+        }
+
+        input = (input || '').trim();
+        const looksLikeResponse = /^[a-z][a-z0-9+.-]*:\/\//i.test(input) || /[?#]/.test(input) || /(^|&)(code|error|state)=/.test(input);
+        if (!looksLikeResponse) {
+            // A bare code - there is no state to check, PKCE still binds it to this request
+            if (!input) {
+                throw new OAuthError({ error: 'invalid_request', errorDescription: 'No authorization code was pasted', phase: 'callback' });
+            }
+            try {
+                return decodeURIComponent(input);  // Copied out of the address bar still percent-encoded
+            } catch {
+                return input;
             }
+        }
 
-            server.on('request', (req, res) => {
-                if (!req.url) return;
-                
-                // Use modern WHATWG URL API instead of deprecated url.parse()
-                const address = server.address();
-                const port = typeof address === 'object' && address ? address.port : 3000;
-                const parsedUrl = new URL(req.url, `http://localhost:${port}`);
-                const query = Object.fromEntries(parsedUrl.searchParams.entries());
-                
-                if (query.code) {
-                    const authCode = query.code as string;
-
-                    // Send success response to browser with aggressive auto-close
-                    const responseString = fs.readFileSync(this.successHtmlPath, 'utf8');
-
-                    res.writeHead(200, { 'Content-Type': 'text/html' });
-                    res.end(responseString);
-
-                    clearTimeout(timeout);
-                    resolve(authCode);
-                } else if (query.error) {
-                    const error = query.error as string;
-                    console.error(`OAuth error: ${error}`);
-
-                    // Send error response to browser
-                    const responseString = fs.readFileSync(this.errorHtmlPath, 'utf8')
-                        .replace('{{ERROR}}', error);
-                    
-                    res.writeHead(400, { 'Content-Type': 'text/html' });
-                    res.end(responseString);
-                    
-                    clearTimeout(timeout);
-                    resolve(null);
-                }
+        // A URL, or just its query - the parameters may be in the query or the fragment
+        const query = input.includes('?') || input.includes('#') ? input.slice(input.search(/[?#]/) + 1) : input;
+        const params = Object.fromEntries(new URLSearchParams(query.replace('#', '&')).entries());
+        if (params.state !== expectedState) {
+            throw new OAuthError({
+                error: 'invalid_state',
+                errorDescription: 'State parameter missing or mismatched in the pasted URL',
+                phase: 'callback'
             });
-        });
+        }
+        if (params.error) {
+            throw OAuthError.fromResponse(params, undefined, 'callback');
+        }
+        if (!params.code) {
+            throw new OAuthError({ error: 'invalid_request', errorDescription: 'The pasted URL has no code parameter', phase: 'callback' });
+        }
+        return params.code;
     }
 
     /**
-     * Open browser to authorization URL
+     * Open browser to authorization URL - returns false if no browser could be started
      */
-    private async openBrowser(url: string): Promise<void> {
+    private async openBrowser(url: string): Promise<boolean> {
         try {
             let command: string;
             if (process.platform === 'win32') {
@@ -410,99 +1051,242 @@ export class OAuthGetToken {
             }
             
             await execAsync(command);
-            console.log('Browser opened for authorization');
+            this.logger.info('Browser opened for authorization');
+            return true;
         } catch (error) {
-            console.log('Could not automatically open browser. Please manually visit the URL above.');
+            this.logger.warn('Could not automatically open browser');
+            return false;
         }
     }
 
     /**
-     * Get an OAuth token through the authorization code flow
+     * Get an OAuth token through the authorization code flow, or null on failure
      */
     async getToken(options: OAuthGetTokenOptions): Promise<OAuthToken | null> {
-        console.log('Initiating OAuth2 authentication...');
+        try {
+            return await this.getTokenOrThrow(options);
+        } catch (error) {
+            this.logger.error(`Authentication failed: ${describeError(error)}`);
+            return null;
+        }
+    }
+
+    /**
+     * Default authorization URL display - stderr keeps stdout clean for scripted callers
+     */
+    private static showAuthorizationUrl(url: string, browserOpened: boolean): void {
+        if (!browserOpened) {
+            console.error(`Open this URL in a browser to authorize the application:\n${url}`);
+        }
+    }
+
+    /**
+     * Get an OAuth token through the authorization code flow - throws OAuthError on failure.
+     * A verified ID token's claims come back as id_token_claims
+     */
+    async getTokenOrThrow(options: OAuthGetTokenOptions): Promise<StoredOAuthToken> {
+        this.logger.info('Initiating OAuth2 authentication');
         
-        const redirectUri = this.credentials.redirect_uris[0];
-        let server: http.Server;
-        let authCode: string | null = null;
+        let server: LoopbackServer | undefined;  // Unset in manual mode, or when the server could not start
+        let redirectUri: string;
+        let authCode: string;
+        let respond: LoopbackCallback['respond'] | undefined;
+        const state = generateState();
+        const pkce = options.pkce !== false ? generatePKCE() : undefined;
+        const scopes = splitScope(options.scope);
+        const nonce = options.nonce || (scopes.includes('openid') ? generateState() : undefined);
         
         try {
-            server = await this.startLocalOAuthServer(redirectUri);
+            if (options.manual) {
+                // Nothing listens - the browser shows an error page whose address holds the code
+                redirectUri = this.credentials.redirect_uris?.[0] || 'http://localhost:8080';
+            } else {
+                server = await LoopbackServer.start(this.credentials.redirect_uris || [], {
+                    bindAddress: options.bindAddress,
+                    ephemeralPort: options.ephemeralPort,
+                    logger: this.logger
+                });
+                redirectUri = server.redirectUri;
+            }
             
+            // Providers differ in how a refresh token is requested
+            if (options.includeOfflineAccess && this.provider.offlineAccess === 'scope' && !scopes.includes('offline_access')) {
+                scopes.push('offline_access');
+            }
+
             // Create OAuth2 authorization URL
             const authParams = new URLSearchParams({
                 client_id: this.credentials.client_id,
                 redirect_uri: redirectUri,
-                scope: options.scope,
-                response_type: 'code'
+                scope: formatScope(scopes, this.provider),
+                response_type: 'code',
+                state
             });
 
-            if (options.includeOfflineAccess) {
+            if (pkce) {
+                authParams.set('code_challenge', pkce.codeChallenge);
+                authParams.set('code_challenge_method', pkce.codeChallengeMethod);
+            }
+
+            if (nonce) {
+                authParams.set('nonce', nonce);
+            }
+
+            if (options.includeOfflineAccess && this.provider.offlineAccess === 'access_type') {
                 authParams.set('access_type', 'offline');
             }
+            if (options.includeGrantedScopes && this.provider.incrementalAuthorization) {
+                authParams.set('include_granted_scopes', 'true');
+            }
             if (options.loginHint) {
                 authParams.set('login_hint', options.loginHint);
             }
             if (options.prompt) {
                 authParams.set('prompt', options.prompt);
             }
+            if (options.responseMode) {
+                authParams.set('response_mode', options.responseMode);
+            }
 
             const authUrl = `${this.credentials.auth_uri}?${authParams.toString()}`;
             
-            console.log('Opening browser to authorize the application...');
-            console.log(`Authorization URL: ${authUrl}`);
-            
-            // Try to open browser automatically
-            await this.openBrowser(authUrl);
-            
-            // Wait for OAuth callback
-            authCode = await this.waitForOAuthCallback(server, options.timeoutSeconds || 300, options.signal);
-            
-        } catch (error) {
-            console.error(`Failed to start local OAuth server: ${error}`);
-            return null;
+            if (options.manual) {
+                (options.onAuthorizationUrl || OAuthGetToken.showAuthorizationUrl)(authUrl, false);
+                authCode = await this.readPastedCode(authUrl, state, options);
+            } else {
+                this.logger.info('Opening browser to authorize the application');
+
+                // Wait for the OAuth callback from before the browser opens - openers can take long to
+                // return, and the redirect must not arrive with nobody waiting. Cancelled if opening fails
+                const opening = new AbortController();
+                const onAbort = () => opening.abort();
+                options.signal?.addEventListener('abort', onAbort, { once: true });
+                const callback = this.waitForOAuthCallback(server, state, { ...options, signal: opening.signal });
+                callback.catch(() => {}); // Thrown where it is awaited below
+                try {
+                    // Try to open browser automatically, otherwise the user has to be shown the URL
+                    const browserOpened = await (options.openBrowser || ((url: string) => this.openBrowser(url)))(authUrl);
+                    (options.onAuthorizationUrl || OAuthGetToken.showAuthorizationUrl)(authUrl, browserOpened);
+
+                    // The browser gets its page once the code is exchanged
+                    ({ code: authCode, respond } = await callback);
+                } finally {
+                    opening.abort();
+                    options.signal?.removeEventListener('abort', onAbort);
+                }
+            }
         } finally {
-            if (server!) {
+            if (server) {
                 server.close();
-                console.log('OAuth server stopped');
+                this.logger.debug('OAuth server stopped');
             }
         }
         
-        if (!authCode) {
-            console.error('Failed to get authorization code');
-            return null;
-        }
-        
         // Exchange authorization code for access token
-        const tokenBody = querystring.stringify({
-            client_id: this.credentials.client_id,
-            client_secret: this.credentials.client_secret,
+        const tokenParams: Record<string, string> = {
             code: authCode,
             grant_type: 'authorization_code',
             redirect_uri: redirectUri
-        });
+        };
+        if (pkce) {
+            tokenParams.code_verifier = pkce.codeVerifier;
+        }
         
+        this.logger.debug('Exchanging authorization code for tokens');
+        let token: StoredOAuthToken;
         try {
-            const response = await fetch(this.credentials.token_uri, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/x-www-form-urlencoded'
-                },
-                body: tokenBody
+            token = await postTokenRequest(this.credentials.token_uri, tokenParams, 'code_exchange', {
+                clientAuth: clientFromCredentials(this.credentials),
+                signal: options.signal,
+                retry: options.retry,
+                logger: this.logger
             });
-            
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
+            const claims = token.id_token ? await this.validateIdToken(token.id_token, nonce) : undefined;
+            if (claims) {
+                token.id_token_claims = claims;
             }
-            
-            const tokenResponse = await response.json() as OAuthToken;
-            return tokenResponse;
         } catch (error) {
-            console.error(`Authentication failed: ${error}`);
-            return null;
+            if (respond) {
+                // Only OAuth errors are meant for the user - anything else stays in the logs
+                const details = error instanceof OAuthError ? { error: error.error, errorDescription: error.errorDescription } : { error: 'server_error' };
+                await this.answerBrowser(respond, 'error', details, options);
+            }
+            throw error;
         }
+
+        if (respond) {
+            const granted = splitScope(token.scope);
+            await this.answerBrowser(respond, 'success', granted.length > 0 ? { scopes: granted } : {}, options);
+        }
+        return token;
     }
+
+    /**
+     * Check an ID token from the code exchange - fully against the JWKS when the credentials or
+     * the provider preset name the issuer and jwks_uri, otherwise only the nonce (the token came
+     * straight from the token endpoint over TLS, which OpenID Connect Core 3.1.3.7 accepts).
+     * Returns the claims only when they were verified
+     */
+    private async validateIdToken(idToken: string, nonce: string | undefined): Promise<IdTokenClaims | undefined> {
+        // Credentials files seldom name them (Google's do not) - a recognized provider's preset does
+        const preset = this.provider.endpoints?.({});
+        const issuer = this.credentials.issuer || preset?.issuer;
+        const jwksUri = this.credentials.jwks_uri || preset?.jwks_uri;
+        if (jwksUri && issuer) {
+            const claims = await verifyIdToken(idToken, {
+                jwksUri,
+                issuer,
+                audience: this.credentials.client_id,
+                nonce
+            });
+            this.logger.debug('ID token verified');
+            return claims;
+        }
+
+        this.logger.warn('ID token signature not verified - neither the credentials nor the provider preset name an issuer and jwks_uri');
+        if (nonce !== undefined && decodeIdToken(idToken).nonce !== nonce) {
+            throw new OAuthError({
+                error: 'invalid_id_token',
+                errorDescription: 'ID token nonce does not match the authorization request',
+                phase: 'code_exchange'
+            });
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Options for authenticateOAuth and authenticateOAuthOrThrow
+ */
+export interface AuthenticateOAuthOptions {
+    scope: string;
+    tokenDirectory?: string;
+    tokenFileName?: string;
+    store?: TokenStore;  /** Token storage backend (default: files in tokenDirectory) */
+    encryption?: TokenEncryptionOptions;  /** Encrypt token files at rest (AES-256-GCM) */
+    credentialsKey?: string;  /** For nested credentials like Google's "installed" or "web" */
+    timeoutSeconds?: number;  /** Timeout for OAuth flow (default: 300 seconds) */
+    includeOfflineAccess?: boolean;  /** Request refresh token for long-lived access (default: true) */
+    maxTokenLifetimeHours?: number;  /** Max lifetime before re-auth required (default: unlimited, uses refresh token) */
+    loginHint?: string;  /** Pre-select this email in account picker */
+    prompt?: 'none' | 'consent' | 'select_account';  /** Force specific prompt; auto-detects 'consent' when refresh token needed */
+    retryDeclinedScopes?: boolean;  /** Ask again for requested scopes the user declined before (default: false - the token is returned as granted) */
+    signal?: AbortSignal;  /** Allow cancellation of OAuth flow */
+    flow?: 'browser' | 'device' | 'client_credentials' | 'service_account';  /** Grant to use (default: 'browser'); 'service_account' expects a service-account key */
+    onUserCode?: (info: DeviceAuthorizationInfo) => void;  /** Device flow only - show the user code and verification URI */
+    subject?: string;  /** Service account only - user to impersonate */
+    audience?: string;  /** client_credentials only - API audience for providers that use one */
+    onAuthorizationUrl?: (url: string, browserOpened: boolean) => void;  /** Browser flow only - show the authorization URL */
+    openBrowser?: (url: string) => Promise<boolean>;  /** Browser flow only - open the authorization URL instead of the system browser */
+    bindAddress?: string;  /** Browser flow only - interface for the redirect server, e.g. '127.0.0.1' */
+    ephemeralPort?: boolean;  /** Browser flow only - let the OS pick the redirect server's port */
+    manual?: boolean;  /** Browser flow only - copy-paste mode; used automatically when no local server can start */
+    promptForCode?: (authorizationUrl: string) => Promise<string>;  /** Copy-paste mode - read the pasted code or URL (default: stdin) */
+    appName?: string;  /** Browser flow only - name shown on the callback pages */
+    successPage?: CallbackPage;  /** Browser flow only - custom page after authorization (template HTML or render function) */
+    errorPage?: CallbackPage;  /** Browser flow only - custom page when authorization fails */
+    retry?: RetryOptions | false;  /** Retries and timeout for token endpoint calls (default: 2 retries, 30s timeout) */
+    logger?: OAuthLogger;  /** console, pino or similar (default: silent) */
 }
 
 /**
@@ -514,87 +1298,129 @@ export class OAuthGetToken {
  * - When refresh token is needed but not stored, auto-forces consent prompt
  * - Access tokens auto-refresh in background using refresh token
  * - Users only re-authenticate when refresh token is revoked or maxTokenLifetimeHours exceeded
+ *
+ * Returns null on any failure - use authenticateOAuthOrThrow to find out why
  */
 export async function authenticateOAuth(
-    credentialsPathOrData: string | OAuthCredentials | object,
-    options: {
-        scope: string;
-        tokenDirectory?: string;
-        tokenFileName?: string;
-        credentialsKey?: string;  /** For nested credentials like Google's "installed" or "web" */
-        timeoutSeconds?: number;  /** Timeout for OAuth flow (default: 300 seconds) */
-        includeOfflineAccess?: boolean;  /** Request refresh token for long-lived access (default: true) */
-        maxTokenLifetimeHours?: number;  /** Max lifetime before re-auth required (default: unlimited, uses refresh token) */
-        loginHint?: string;  /** Pre-select this email in account picker */
-        prompt?: 'none' | 'consent' | 'select_account';  /** Force specific prompt; auto-detects 'consent' when refresh token needed */
-        signal?: AbortSignal;  /** Allow cancellation of OAuth flow */
-    }
+    credentialsPathOrData: CredentialsSource,
+    options: AuthenticateOAuthOptions
 ): Promise<OAuthToken | null> {
-    let credentials: OAuthCredentials;
-    
-    // Handle credentials input - file path, nested object, or direct object
-    if (typeof credentialsPathOrData === 'string') {
-        // File path - try with credentialsKey first, then without
-        const loadedCredentials = OAuthGetToken.loadCredentialsFromFile(
-            credentialsPathOrData, 
-            options.credentialsKey
-        );
-        if (!loadedCredentials) {
-            console.error('Failed to load credentials from file');
-            return null;
-        }
-        credentials = loadedCredentials;
-    } else if (options.credentialsKey && options.credentialsKey in credentialsPathOrData) {
-        // Nested credentials (e.g., Google's "installed" key)
-        credentials = (credentialsPathOrData as any)[options.credentialsKey];
-    } else if ('installed' in credentialsPathOrData) {
-        // Auto-detect Google's "installed" structure
-        credentials = (credentialsPathOrData as any).installed;
-    } else if ('web' in credentialsPathOrData) {
-        // Auto-detect Google's "web" structure  
-        credentials = (credentialsPathOrData as any).web;
-    } else {
-        // Direct credentials object
-        credentials = credentialsPathOrData as OAuthCredentials;
-    }
-
-    // Validate credentials
-    if (!credentials.client_id || !credentials.client_secret || !credentials.auth_uri || !credentials.token_uri) {
-        console.error('Invalid credentials format - missing required OAuth fields');
+    try {
+        return await authenticateOAuthOrThrow(credentialsPathOrData, options);
+    } catch (error) {
+        (options.logger || silentLogger).error(`Authentication failed: ${describeError(error)}`);
         return null;
     }
+}
 
-    // Set up token manager
-    const tokenManager = new OAuthTokenManager({
+/**
+ * authenticateOAuth that throws OAuthError instead of returning null:
+ * OAuthCredentialsError, OAuthAccessDeniedError, OAuthTimeoutError, OAuthCancelledError,
+ * OAuthNetworkError, or OAuthError with the provider's error code and the failing phase
+ */
+export async function authenticateOAuthOrThrow(
+    credentialsPathOrData: CredentialsSource,
+    options: AuthenticateOAuthOptions
+): Promise<OAuthToken> {
+    // Set up token storage - each client/account/scope combination gets its own entry
+    const baseManager = new OAuthTokenManager({
         tokenDirectory: options.tokenDirectory || process.cwd(),
         tokenFileName: options.tokenFileName || 'oauth-token.json',
-        maxTokenLifetimeHours: options.maxTokenLifetimeHours
+        store: options.store,
+        encryption: options.encryption,
+        maxTokenLifetimeHours: options.maxTokenLifetimeHours,
+        retry: options.retry,
+        logger: options.logger
     });
+    const logger = options.logger || silentLogger;
 
-    // Create OAuth client for token management
-    const oauthClient = {
+    if (options.flow === 'service_account') {
+        // Service-account keys are not OAuth client credentials - load and mint directly
+        const key = typeof credentialsPathOrData === 'string'
+            ? OAuthJwtBearerGrant.loadKeyFromFileOrThrow(credentialsPathOrData)
+            : credentialsPathOrData;
+        if (!OAuthJwtBearerGrant.isServiceAccountKey(key)) {
+            throw new OAuthCredentialsError('Invalid service account key - missing client_email, private_key or token_uri');
+        }
+
+        const grant = new OAuthJwtBearerGrant(key, logger);
+        const tokenManager = baseManager.forAccount({
+            clientId: key.client_email,
+            account: options.subject,
+            scope: options.scope
+        });
+        const serviceClient = {
+            clientId: key.client_id || key.client_email,
+            tokenUri: key.token_uri
+        };
+        return tokenManager.getValidTokenOrThrow(serviceClient, grant.authenticationCallback({
+            scope: options.scope,
+            subject: options.subject
+        }, true));
+    }
+
+    // Only the browser flow visits auth_uri, the device flow needs its own endpoint
+    const flow = options.flow || 'browser';
+    const credentials = await resolveOAuthCredentials(credentialsPathOrData, {
+        credentialsKey: options.credentialsKey,
+        flow,
+        signal: options.signal,
+        logger
+    });
+
+    const tokenManager = baseManager.forAccount({
         clientId: credentials.client_id,
-        clientSecret: credentials.client_secret,
-        tokenUri: credentials.token_uri
-    };
+        account: options.loginHint,
+        scope: options.scope
+    });
+    await tokenManager.adoptUnkeyedToken();
+
+    // Create OAuth client for token management
+    const oauthClient = clientFromCredentials(credentials);
+
+    if (flow === 'client_credentials') {
+        // Tokens are simply re-minted when they expire - the client gets whatever scope it is allowed
+        return tokenManager.getValidTokenOrThrow(oauthClient, new OAuthClientCredentialsGrant(credentials, logger).authenticationCallback({
+            scope: options.scope,
+            audience: options.audience
+        }, true));
+    }
+
+    // Switching back to a smaller scope set reuses the token of the wider request
+    const provider = providerFor(credentials);
+    const coveringToken = await findCoveringToken(tokenManager, oauthClient, provider, logger);
+    if (coveringToken) {
+        return coveringToken;
+    }
+
+    if (flow === 'device') {
+        // No prompt parameter - device tokens come with a refresh token by default
+        const deviceFlow = new OAuthDeviceFlow(credentials, logger);
+        const authorizeDevice = (scope: string) => deviceFlow.getTokenOrThrow({
+            scope,
+            timeoutSeconds: options.timeoutSeconds,
+            signal: options.signal,
+            onUserCode: options.onUserCode
+        });
+        const token = await tokenManager.getValidTokenOrThrow(oauthClient, () => authorizeScope(tokenManager, options.scope, provider, authorizeDevice, logger));
+        return authorizeMissingScopes(tokenManager, token, options.scope, provider, authorizeDevice, !!options.retryDeclinedScopes, logger);
+    }
 
     // Create OAuth authenticator
-    const authenticator = new OAuthGetToken(credentials);
+    const authenticator = new OAuthGetToken(credentials, logger);
 
     // Check if we need to force consent to get a refresh token
     // This is needed when includeOfflineAccess is requested but stored token lacks refresh_token
-    const wantOfflineAccess = options.includeOfflineAccess !== false;  // Default true
-    const existingToken = tokenManager.getStoredToken();
+    // Default true - but providers that never issue refresh tokens on request (GitHub) cannot be asked for one
+    const wantOfflineAccess = options.includeOfflineAccess !== false && providerFor(credentials).offlineAccess !== 'none';
+    const existingToken = await tokenManager.getStoredToken();
     const needsRefreshToken = wantOfflineAccess && existingToken && !existingToken.refresh_token;
 
     if (needsRefreshToken) {
-        console.log('Stored token lacks refresh_token - will request consent to obtain one');
+        logger.info('Stored token lacks refresh_token - will request consent to obtain one');
     }
 
-    // Get valid token (will authenticate if needed)
-    const token = await tokenManager.getValidToken(oauthClient, async () => {
-        console.log('No valid token found, starting OAuth authentication...');
-
+    const authorizeBrowser = async (scope: string, includeGrantedScopes: boolean): Promise<OAuthToken> => {
         // Determine prompt strategy:
         // - If caller specified a prompt, use it
         // - If we need a refresh token (offline access requested but none stored), force consent
@@ -602,47 +1428,172 @@ export async function authenticateOAuth(
         let effectivePrompt = options.prompt;
         if (!effectivePrompt && wantOfflineAccess) {
             // Force consent if no stored token OR stored token lacks refresh_token
-            const storedToken = tokenManager.getStoredToken();
+            const storedToken = await tokenManager.getStoredToken();
             if (!storedToken || !storedToken.refresh_token) {
                 effectivePrompt = 'consent';
-                console.log('Forcing consent prompt to obtain refresh token for offline access');
+                logger.info('Forcing consent prompt to obtain refresh token for offline access');
             }
         }
 
         const authOptions: OAuthGetTokenOptions = {
-            scope: options.scope,
+            scope,
             timeoutSeconds: options.timeoutSeconds || 300,
             includeOfflineAccess: wantOfflineAccess,
             loginHint: options.loginHint,
             prompt: effectivePrompt,
-            signal: options.signal
+            signal: options.signal,
+            onAuthorizationUrl: options.onAuthorizationUrl,
+            openBrowser: options.openBrowser,
+            bindAddress: options.bindAddress,
+            ephemeralPort: options.ephemeralPort,
+            retry: options.retry,
+            includeGrantedScopes,
+            manual: options.manual,
+            promptForCode: options.promptForCode,
+            appName: options.appName,
+            successPage: options.successPage,
+            errorPage: options.errorPage
         };
 
-        return await authenticator.getToken(authOptions);
+        try {
+            return await authenticator.getTokenOrThrow(authOptions);
+        } catch (error) {
+            // No local server possible (ports taken, sandbox) - let the user paste the code instead,
+            // when someone is there to paste it
+            const canPaste = !!options.promptForCode || !!process.stdin.isTTY;
+            if (!(error instanceof OAuthError && error.error === 'loopback_unavailable') || authOptions.manual || !canPaste) {
+                throw error;
+            }
+            logger.warn(`${error.errorDescription} - switching to copy-paste authorization`);
+            return await authenticator.getTokenOrThrow({ ...authOptions, manual: true });
+        }
+    };
+
+    // Get valid token (will authenticate if needed)
+    const token = await tokenManager.getValidTokenOrThrow(oauthClient, () => {
+        logger.info('No valid token found, starting OAuth authentication');
+        return authorizeScope(tokenManager, options.scope, provider, authorizeBrowser, logger);
     });
+    return authorizeMissingScopes(tokenManager, token, options.scope, provider, (scope) => authorizeBrowser(scope, true), !!options.retryDeclinedScopes, logger);
+}
+
+/**
+ * A valid token stored for a wider request of the same client and account, when the request has
+ * none of its own - null when there is none, or it can no longer be refreshed
+ */
+async function findCoveringToken(tokenManager: OAuthTokenManager, client: OAuthClient, provider: OAuthProvider, logger: OAuthLogger): Promise<OAuthToken | null> {
+    if (await tokenManager.hasStoredToken()) {
+        return null;
+    }
+    const coveringManager = await tokenManager.findCoveringToken(provider);
+    if (!coveringManager) {
+        return null;
+    }
+    try {
+        return await coveringManager.getValidTokenOrThrow(client);
+    } catch (error) {
+        logger.debug(`Token stored for a wider request is unusable: ${describeError(error)}`);
+        return null;
+    }
+}
+
+/**
+ * Authorization for a request with no usable token of its own. A token stored for a smaller
+ * request of the same client and account is extended by incremental authorization - the union
+ * is requested and stored for this request, the smaller one keeps its own. Scopes the user
+ * declines are recorded
+ */
+async function authorizeScope(
+    tokenManager: OAuthTokenManager,
+    requestedScope: string,
+    provider: OAuthProvider,
+    authorize: (scope: string, includeGrantedScopes: boolean) => Promise<OAuthToken>,
+    logger: OAuthLogger
+): Promise<StoredOAuthToken> {
+    const narrower = await tokenManager.findNarrowerToken(provider);
+    if (!narrower) {
+        return withDeclinedScopes(await authorize(requestedScope, false), requestedScope, provider, logger);
+    }
 
-    if (!token) {
-        console.error('❌ Authentication failed');
+    logger.info(`Extending the token stored for ${narrower.scope} - requesting incremental authorization`);
+    const scope = normalizeScope(`${narrower.scope} ${requestedScope}`);
+    const token: StoredOAuthToken = await authorize(scope, true);
+    if (!token.scope) {
+        token.scope = scope;
     }
+    if (!token.refresh_token && narrower.refresh_token) {
+        token.refresh_token = narrower.refresh_token;
+    }
+    return withDeclinedScopes(token, requestedScope, provider, logger);
+}
 
+/**
+ * Record the requested scopes a new token was not granted, so later calls do not ask for them again
+ */
+function withDeclinedScopes(token: StoredOAuthToken, requestedScope: string, provider: OAuthProvider, logger: OAuthLogger): StoredOAuthToken {
+    // RFC 6749 section 5.1: an omitted scope means the requested scope was granted
+    const declined = token.scope ? missingScopes(token.scope, requestedScope, provider) : [];
+    if (declined.length > 0) {
+        logger.warn(`Authorization did not grant ${declined.join(' ')}`);
+        token.declined_scopes = declined.join(' ');
+    }
     return token;
 }
 
+/**
+ * Run an incremental authorization when the stored token lacks requested scopes - it was saved by
+ * an older version, or a refresh narrowed it. Asks for the union so nothing granted earlier is lost,
+ * and stores the result. Scopes the user declined before are not asked for again, unless the
+ * caller says so
+ */
+async function authorizeMissingScopes(
+    tokenManager: OAuthTokenManager,
+    token: StoredOAuthToken,
+    requestedScope: string,
+    provider: OAuthProvider,
+    authorize: (scope: string) => Promise<OAuthToken>,
+    retryDeclinedScopes: boolean,
+    logger: OAuthLogger
+): Promise<OAuthToken> {
+    // RFC 6749 section 5.1: an omitted scope means the requested scope was granted
+    const settled = retryDeclinedScopes ? token.scope : `${token.scope} ${token.declined_scopes || ''}`;
+    const missing = token.scope ? missingScopes(settled, requestedScope, provider) : [];
+    if (missing.length === 0) {
+        return token;
+    }
+
+    logger.info(`Stored token lacks ${missing.join(' ')} - requesting incremental authorization`);
+    const scope = normalizeScope(`${token.scope} ${requestedScope}`);
+    const newToken: StoredOAuthToken = await authorize(scope);
+    if (!newToken.scope) {
+        newToken.scope = scope;
+    }
+    if (!newToken.refresh_token && token.refresh_token) {
+        newToken.refresh_token = token.refresh_token;
+    }
+    await tokenManager.saveToken(withDeclinedScopes(newToken, requestedScope, provider, logger));
+    return newToken;
+}
+
 /**
  * Utility function to create credentials from a JSON string
  */
-export function parseCredentialsFromString(jsonString: string, credentialsKey?: string): OAuthCredentials | null {
+export function parseCredentialsFromString(jsonString: string, credentialsKey?: string, logger: OAuthLogger = silentLogger): OAuthCredentials | null {
+    let parsed: any;
     try {
-        const parsed = JSON.parse(jsonString);
-        const credentials = credentialsKey ? parsed[credentialsKey] : parsed;
-        
-        if (!credentials.client_id || !credentials.client_secret || !credentials.auth_uri || !credentials.token_uri) {
-            throw new Error('Invalid credentials format - missing required fields');
-        }
-        
-        return credentials as OAuthCredentials;
+        parsed = JSON.parse(jsonString);
+    } catch {
+        // The parser message quotes the input, which would put the client secret in the log
+        logger.error('Error parsing credentials string: not valid JSON');
+        return null;
+    }
+
+    try {
+        const credentials = credentialsFromDocument(parsed, credentialsKey);
+        checkCredentials(credentials, 'browser');
+        return credentials;
     } catch (error) {
-        console.error('Error parsing credentials string:', error);
+        logger.error(`Error parsing credentials string: ${describeError(error)}`);
         return null;
     }
 }
@@ -0,0 +1,228 @@
+/**
+ * OpenID Connect ID token support
+ * Decodes and validates ID tokens against the provider's JWKS (signature, iss, aud, exp, nonce)
+ */
+
+import * as crypto from 'crypto';
+import { OAuthError, type OAuthErrorPhase } from './OAuthError.js';
+
+/**
+ * Standard claims this library relies on - providers add many more
+ */
+export interface IdTokenClaims {
+    iss: string;
+    sub: string;
+    aud: string | string[];
+    exp: number;
+    iat: number;
+    nonce?: string;
+    azp?: string;
+    email?: string;
+    email_verified?: boolean;
+    name?: string;
+    tid?: string;  // Microsoft tenant id - used to resolve '{tenantid}' issuers
+    [claim: string]: unknown;
+}
+
+/**
+ * Who a stored token belongs to, from its verified ID token
+ */
+export interface OAuthIdentity {
+    sub: string;
+    email?: string;
+    name?: string;
+    issuer: string;
+}
+
+export interface IdTokenValidationOptions {
+    jwksUri: string;
+    issuer: string;  /** Expected iss - Microsoft's '{tenantid}' placeholder is resolved from the tid claim */
+    audience: string;  /** The client_id */
+    nonce?: string;  /** Required match when the authorization request sent one */
+    clockToleranceSeconds?: number;  /** Allowed clock difference for exp and iat (default: 60) */
+    phase?: OAuthErrorPhase;  /** Phase reported in errors (default: 'code_exchange') */
+}
+
+interface JsonWebKeySet {
+    keys: (crypto.JsonWebKey & { kid?: string; use?: string; alg?: string })[];
+}
+
+interface CachedJwks {
+    jwks: JsonWebKeySet;
+    fetchedAt: number;
+}
+
+const JWKS_CACHE_MS = 60 * 60 * 1000;  // Providers rotate keys on the order of days
+const JWKS_MIN_REFETCH_MS = 60 * 1000;  // Unknown kids trigger a refetch, but not more than once a minute
+const jwksCache = new Map<string, CachedJwks>();
+
+// JWS algorithm -> node:crypto verify parameters
+const algorithms: Record<string, { hash: string | null; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+    RS256: { hash: 'sha256' },
+    RS384: { hash: 'sha384' },
+    RS512: { hash: 'sha512' },
+    PS256: { hash: 'sha256', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+    PS384: { hash: 'sha384', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+    PS512: { hash: 'sha512', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+    ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+    ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+    ES512: { hash: 'sha512', dsaEncoding: 'ieee-p1363' },
+    EdDSA: { hash: null }
+};
+
+function invalidIdToken(errorDescription: string, phase: OAuthErrorPhase, cause?: unknown): OAuthError {
+    return new OAuthError({ error: 'invalid_id_token', errorDescription, phase, cause });
+}
+
+function decodeSegment(segment: string): any {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Read the claims of an ID token WITHOUT verifying it - only for tokens received
+ * directly from the token endpoint over TLS, or for display
+ */
+export function decodeIdToken(idToken: string): IdTokenClaims {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) {
+        throw invalidIdToken('ID token is not a JWS compact serialization', 'code_exchange');
+    }
+    try {
+        return decodeSegment(parts[1]) as IdTokenClaims;
+    } catch (error) {
+        throw invalidIdToken('ID token payload is not valid JSON', 'code_exchange', error);
+    }
+}
+
+/**
+ * Fetch a JWKS, using the cache unless forced
+ */
+async function getJwks(jwksUri: string, forceRefresh: boolean, phase: OAuthErrorPhase): Promise<JsonWebKeySet> {
+    const cached = jwksCache.get(jwksUri);
+    const now = Date.now();
+    if (cached && now - cached.fetchedAt < (forceRefresh ? JWKS_MIN_REFETCH_MS : JWKS_CACHE_MS)) {
+        return cached.jwks;
+    }
+
+    let jwks: JsonWebKeySet;
+    try {
+        const response = await fetch(jwksUri, { headers: { 'Accept': 'application/json' } });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+        jwks = await response.json() as JsonWebKeySet;
+    } catch (error) {
+        throw invalidIdToken(`Could not fetch JWKS from ${jwksUri}`, phase, error);
+    }
+    if (!Array.isArray(jwks?.keys)) {
+        throw invalidIdToken(`JWKS from ${jwksUri} has no keys`, phase);
+    }
+
+    jwksCache.set(jwksUri, { jwks, fetchedAt: now });
+    return jwks;
+}
+
+/**
+ * Forget cached JWKS - all of them, or one provider's
+ */
+export function clearJwksCache(jwksUri?: string): void {
+    if (jwksUri) {
+        jwksCache.delete(jwksUri);
+    } else {
+        jwksCache.clear();
+    }
+}
+
+/**
+ * Verify an ID token's signature and claims - throws OAuthError ('invalid_id_token') on any failure
+ */
+export async function verifyIdToken(idToken: string, options: IdTokenValidationOptions): Promise<IdTokenClaims> {
+    const phase = options.phase || 'code_exchange';
+    const parts = idToken.split('.');
+    if (parts.length !== 3) {
+        throw invalidIdToken('ID token is not a JWS compact serialization', phase);
+    }
+
+    let header: { alg?: string; kid?: string };
+    let claims: IdTokenClaims;
+    try {
+        header = decodeSegment(parts[0]);
+        claims = decodeSegment(parts[1]);
+    } catch (error) {
+        throw invalidIdToken('ID token header or payload is not valid JSON', phase, error);
+    }
+
+    // Signature - 'none' and HMAC algorithms are never accepted for ID tokens from a JWKS
+    const algorithm = header.alg ? algorithms[header.alg] : undefined;
+    if (!algorithm) {
+        throw invalidIdToken(`Unsupported ID token algorithm: ${header.alg}`, phase);
+    }
+
+    const findKey = (jwks: JsonWebKeySet) => jwks.keys.find(key =>
+        (header.kid ? key.kid === header.kid : true) && (!key.use || key.use === 'sig') && (!key.alg || key.alg === header.alg));
+    let jwk = findKey(await getJwks(options.jwksUri, false, phase));
+    if (!jwk) {
+        // The provider may have rotated keys since we cached the set
+        jwk = findKey(await getJwks(options.jwksUri, true, phase));
+    }
+    if (!jwk) {
+        throw invalidIdToken(`No JWKS key matches ID token kid ${header.kid}`, phase);
+    }
+
+    let signatureValid: boolean;
+    try {
+        const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+        signatureValid = crypto.verify(
+            algorithm.hash,
+            Buffer.from(`${parts[0]}.${parts[1]}`),
+            { key, padding: algorithm.padding, dsaEncoding: algorithm.dsaEncoding },
+            Buffer.from(parts[2], 'base64url')
+        );
+    } catch (error) {
+        throw invalidIdToken('ID token signature could not be checked', phase, error);
+    }
+    if (!signatureValid) {
+        throw invalidIdToken('ID token signature is invalid', phase);
+    }
+
+    // Claims (OpenID Connect Core 3.1.3.7)
+    const expectedIssuer = options.issuer.replace('{tenantid}', String(claims.tid));
+    if (claims.iss !== expectedIssuer) {
+        throw invalidIdToken(`ID token issuer ${claims.iss} does not match ${expectedIssuer}`, phase);
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+        throw invalidIdToken('ID token audience does not include this client', phase);
+    }
+    if (audiences.length > 1 && claims.azp !== options.audience) {
+        throw invalidIdToken('ID token has several audiences but azp is not this client', phase);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = options.clockToleranceSeconds ?? 60;
+    if (typeof claims.exp !== 'number' || now > claims.exp + tolerance) {
+        throw invalidIdToken('ID token has expired', phase);
+    }
+    if (typeof claims.iat === 'number' && claims.iat > now + tolerance) {
+        throw invalidIdToken('ID token was issued in the future', phase);
+    }
+
+    if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+        throw invalidIdToken('ID token nonce does not match the authorization request', phase);
+    }
+
+    return claims;
+}
+
+/**
+ * The identity fields callers usually want from ID token claims
+ */
+export function identityFromClaims(claims: IdTokenClaims): OAuthIdentity {
+    return {
+        sub: claims.sub,
+        email: claims.email,
+        name: claims.name,
+        issuer: claims.iss
+    };
+}
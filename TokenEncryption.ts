@@ -0,0 +1,130 @@
+/**
+ * Encryption at rest for stored tokens
+ * AES-256-GCM in a versioned JSON envelope, keyed from an option, environment variable or key file
+ */
+
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import type { StoredOAuthToken } from './OAuthTokenManager.js';
+
+export const ENCRYPTED_TOKEN_FORMAT = 'oauthsupport-encrypted';
+export const DEFAULT_TOKEN_KEY_ENV = 'OAUTH_TOKEN_KEY';
+
+export interface TokenEncryptionOptions {
+    key?: string | Buffer;  /** Secret used to derive the encryption key */
+    keyEnvVar?: string;  /** Environment variable holding the secret (default: OAUTH_TOKEN_KEY) */
+    keyFile?: string;  /** File holding the secret, surrounding whitespace ignored */
+}
+
+/**
+ * Version 1 envelope - every field other than format/version is base64
+ */
+export interface EncryptedTokenEnvelope {
+    format: typeof ENCRYPTED_TOKEN_FORMAT;
+    version: 1;
+    alg: 'aes-256-gcm';
+    kdf: 'scrypt';
+    salt: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+/**
+ * Find the secret from the options in precedence order: key, key file, environment variable
+ */
+export function resolveEncryptionSecret(options: TokenEncryptionOptions = {}): Buffer | null {
+    if (options.key) {
+        return Buffer.isBuffer(options.key) ? options.key : Buffer.from(options.key, 'utf8');
+    }
+    if (options.keyFile) {
+        const secret = fs.readFileSync(options.keyFile, 'utf8').trim();
+        if (!secret) {
+            throw new Error(`Token encryption key file is empty: ${options.keyFile}`);
+        }
+        return Buffer.from(secret, 'utf8');
+    }
+    const envSecret = process.env[options.keyEnvVar || DEFAULT_TOKEN_KEY_ENV];
+    return envSecret ? Buffer.from(envSecret, 'utf8') : null;
+}
+
+/**
+ * Check whether parsed file content is an encrypted envelope rather than a plaintext token
+ */
+export function isEncryptedEnvelope(data: any): data is EncryptedTokenEnvelope {
+    return !!data && typeof data === 'object' && data.format === ENCRYPTED_TOKEN_FORMAT;
+}
+
+// scrypt is slow on purpose (tens of ms, blocking) - derived keys are kept per secret and salt,
+// and each secret encrypts with one salt per process so writes hit the cache too. Random IVs keep
+// every envelope unique under the same key
+const MAX_CACHED_KEYS = 32;
+const derivedKeys = new Map<string, Buffer>();
+const encryptionSalts = new Map<string, Buffer>();
+
+// Cache key for a secret - never the secret itself
+function secretId(secret: Buffer): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function deriveKey(secret: Buffer, salt: Buffer): Buffer {
+    const cacheKey = `${secretId(secret)}:${salt.toString('hex')}`;
+    let key = derivedKeys.get(cacheKey);
+    if (!key) {
+        key = crypto.scryptSync(secret, salt, 32);
+        if (derivedKeys.size >= MAX_CACHED_KEYS) {
+            derivedKeys.delete(derivedKeys.keys().next().value);
+        }
+        derivedKeys.set(cacheKey, key);
+    }
+    return key;
+}
+
+function encryptionSalt(secret: Buffer): Buffer {
+    const id = secretId(secret);
+    let salt = encryptionSalts.get(id);
+    if (!salt) {
+        salt = crypto.randomBytes(16);
+        if (encryptionSalts.size >= MAX_CACHED_KEYS) {
+            encryptionSalts.delete(encryptionSalts.keys().next().value);
+        }
+        encryptionSalts.set(id, salt);
+    }
+    return salt;
+}
+
+/**
+ * Encrypt a token into a version 1 envelope
+ */
+export function encryptToken(token: StoredOAuthToken, secret: Buffer): EncryptedTokenEnvelope {
+    const salt = encryptionSalt(secret);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(secret, salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(token), 'utf8'), cipher.final()]);
+
+    return {
+        format: ENCRYPTED_TOKEN_FORMAT,
+        version: 1,
+        alg: 'aes-256-gcm',
+        kdf: 'scrypt',
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64')
+    };
+}
+
+/**
+ * Decrypt an envelope - throws if the secret is wrong or the file was tampered with
+ */
+export function decryptToken(envelope: EncryptedTokenEnvelope, secret: Buffer): StoredOAuthToken {
+    if (envelope.version !== 1 || envelope.alg !== 'aes-256-gcm' || envelope.kdf !== 'scrypt') {
+        throw new Error(`Unsupported encrypted token format: version ${envelope.version}, ${envelope.alg}/${envelope.kdf}`);
+    }
+
+    const key = deriveKey(secret, Buffer.from(envelope.salt, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8')) as StoredOAuthToken;
+}
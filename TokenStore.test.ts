@@ -0,0 +1,240 @@
+/**
+ * FileTokenStore on a real directory - encryption at rest, file permissions, migration of
+ * plaintext files, and the cross-process refresh lock under contention and with stale locks
+ */
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileTokenStore, migrateTokenFiles } from './TokenStore.js';
+import type { StoredOAuthToken } from './OAuthTokenManager.js';
+import { longestRequestMs } from './OAuthHttp.js';
+import { OAuthTimeoutError } from './OAuthError.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const TOKEN: StoredOAuthToken = {
+    access_token: 'access-secret-value',
+    refresh_token: 'refresh-secret-value',
+    token_type: 'Bearer',
+    expires_in: 3600,
+    scope: 'read'
+};
+
+// Permission bits are not enforced on Windows
+const posixOnly = { skip: process.platform === 'win32' && 'file modes are ignored on Windows' };
+const fileMode = (file: string) => fs.statSync(file).mode & 0o777;
+
+describe('FileTokenStore at rest', () => {
+    let root: string;
+    let directoryCount = 0;
+    // Every test gets a directory the store has not created yet, so its mode is the store's doing
+    const nextDirectory = () => path.join(root, `tokens-${++directoryCount}`);
+
+    before(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'oauthsupport-store-'));
+    });
+    after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+    it('encrypts tokens and reads them back with the same key', async () => {
+        const directory = nextDirectory();
+        const store = new FileTokenStore(directory, { encryption: { key: 'correct horse' } });
+        await store.set('token.json', TOKEN);
+
+        const onDisk = fs.readFileSync(path.join(directory, 'token.json'), 'utf8');
+        assert.equal(JSON.parse(onDisk).format, 'oauthsupport-encrypted');
+        assert.ok(!onDisk.includes('access-secret-value'));
+        assert.ok(!onDisk.includes('refresh-secret-value'));
+
+        const reopened = new FileTokenStore(directory, { encryption: { key: 'correct horse' } });
+        assert.deepEqual(await reopened.get('token.json'), TOKEN);
+        assert.deepEqual(await reopened.list(), ['token.json']);
+    });
+
+    it('reads the key from a key file', async () => {
+        const directory = nextDirectory();
+        const keyFile = path.join(root, `key-${directoryCount}.txt`);
+        fs.writeFileSync(keyFile, '  file secret\n');
+
+        await new FileTokenStore(directory, { encryption: { keyFile } }).set('token.json', TOKEN);
+        assert.deepEqual(await new FileTokenStore(directory, { encryption: { key: 'file secret' } }).get('token.json'), TOKEN);
+    });
+
+    it('returns no token for the wrong key or a tampered file', async () => {
+        const directory = nextDirectory();
+        await new FileTokenStore(directory, { encryption: { key: 'correct horse' } }).set('token.json', TOKEN);
+
+        assert.equal(await new FileTokenStore(directory, { encryption: { key: 'battery staple' } }).get('token.json'), null);
+
+        const tokenPath = path.join(directory, 'token.json');
+        const envelope = JSON.parse(fs.readFileSync(tokenPath, 'utf8'));
+        const data = Buffer.from(envelope.data, 'base64');
+        data[0] ^= 1;
+        envelope.data = data.toString('base64');
+        fs.writeFileSync(tokenPath, JSON.stringify(envelope));
+        assert.equal(await new FileTokenStore(directory, { encryption: { key: 'correct horse' } }).get('token.json'), null);
+    });
+
+    it('refuses to start when encryption is requested without a key', () => {
+        assert.throws(() => new FileTokenStore(nextDirectory(), { encryption: { keyEnvVar: 'OAUTHSUPPORT_TEST_NO_SUCH_KEY' } }),
+            /no key was found/);
+    });
+
+    it('reads a plaintext token file with encryption enabled', async () => {
+        const directory = nextDirectory();
+        fs.mkdirSync(directory);
+        fs.writeFileSync(path.join(directory, 'token.json'), JSON.stringify(TOKEN));
+
+        const store = new FileTokenStore(directory, { encryption: { key: 'correct horse' } });
+        assert.deepEqual(await store.get('token.json'), TOKEN);
+    });
+
+    it('creates the directory 0700 and token files 0600', posixOnly, async () => {
+        const directory = nextDirectory();
+        const store = new FileTokenStore(directory);
+        await store.set('token.json', TOKEN);
+
+        assert.equal(fileMode(directory), 0o700);
+        assert.equal(fileMode(path.join(directory, 'token.json')), 0o600);
+
+        // Rewriting replaces the file rather than reusing one with looser permissions
+        fs.chmodSync(path.join(directory, 'token.json'), 0o644);
+        await store.set('token.json', TOKEN);
+        assert.equal(fileMode(path.join(directory, 'token.json')), 0o600);
+    });
+
+    it('migrates plaintext token files to encrypted 0600 files and leaves other JSON alone', async () => {
+        const directory = nextDirectory();
+        fs.mkdirSync(directory);
+        fs.writeFileSync(path.join(directory, 'token.json'), JSON.stringify(TOKEN), { mode: 0o644 });
+        fs.writeFileSync(path.join(directory, 'credentials.json'), JSON.stringify({ installed: { client_id: 'id' } }), { mode: 0o644 });
+
+        const migrated = await migrateTokenFiles(directory, { key: 'correct horse' });
+        assert.deepEqual(migrated, ['token.json']);
+
+        const onDisk = fs.readFileSync(path.join(directory, 'token.json'), 'utf8');
+        assert.equal(JSON.parse(onDisk).format, 'oauthsupport-encrypted');
+        assert.ok(!onDisk.includes('access-secret-value'));
+        if (process.platform !== 'win32') {
+            assert.equal(fileMode(path.join(directory, 'token.json')), 0o600);
+        }
+        assert.deepEqual(await new FileTokenStore(directory, { encryption: { key: 'correct horse' } }).get('token.json'), TOKEN);
+        assert.deepEqual(JSON.parse(fs.readFileSync(path.join(directory, 'credentials.json'), 'utf8')), { installed: { client_id: 'id' } });
+    });
+});
+
+describe('FileTokenStore lock', () => {
+    let directory: string;
+    let keyCount = 0;
+    // Every test locks its own token, so leftovers from one cannot block another
+    const nextKey = () => `token-${++keyCount}.json`;
+    const lockFiles = () => fs.readdirSync(directory).filter(name => name.includes('.lock'));
+
+    before(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'oauthsupport-lock-'));
+    });
+    after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+    it('by default waits longer than a refresh that uses every retry', () => {
+        const store = new FileTokenStore(directory);
+        assert.ok(store['lockTimeout'] > longestRequestMs());
+
+        const patient = new FileTokenStore(directory, { retry: { retries: 5, timeoutMs: 60000 } });
+        assert.ok(patient['lockTimeout'] > longestRequestMs({ retries: 5, timeoutMs: 60000 }));
+    });
+
+    it('makes a second locker wait until the first releases', async () => {
+        const key = nextKey();
+        const first = new FileTokenStore(directory);
+        const second = new FileTokenStore(directory);
+
+        const release = await first.lock(key);
+        let acquired = false;
+        const waiting = second.lock(key).then(releaseSecond => {
+            acquired = true;
+            return releaseSecond;
+        });
+
+        await sleep(300);
+        assert.equal(acquired, false);
+
+        await release();
+        const releaseSecond = await waiting;
+        assert.equal(acquired, true);
+        await releaseSecond();
+        assert.deepEqual(lockFiles(), []);
+    });
+
+    it('breaks a lock its holder stopped renewing', async () => {
+        const key = nextKey();
+        const lockPath = path.join(directory, `${key}.lock`);
+        fs.writeFileSync(lockPath, '99999\n');
+        const longAgo = new Date(Date.now() - 60 * 1000);
+        fs.utimesSync(lockPath, longAgo, longAgo);
+
+        const store = new FileTokenStore(directory, { staleLockMs: 1000, lockTimeoutMs: 2000 });
+        const release = await store.lock(key);
+        assert.equal(fs.readFileSync(lockPath, 'utf8'), `${process.pid}\n`);
+
+        await release();
+        assert.deepEqual(lockFiles(), []);
+    });
+
+    it('does not break a lock its holder keeps renewing, and times out instead', async () => {
+        const key = nextKey();
+        const holder = new FileTokenStore(directory, { staleLockMs: 300 });
+        const waiter = new FileTokenStore(directory, { staleLockMs: 300, lockTimeoutMs: 1000 });
+
+        const release = await holder.lock(key);
+        try {
+            await assert.rejects(waiter.lock(key), OAuthTimeoutError);
+        } finally {
+            await release();
+        }
+    });
+
+    it('lets only one of several waiters take over a stale lock at a time', async () => {
+        const key = nextKey();
+        const lockPath = path.join(directory, `${key}.lock`);
+        fs.writeFileSync(lockPath, '99999\n');
+        const longAgo = new Date(Date.now() - 60 * 1000);
+        fs.utimesSync(lockPath, longAgo, longAgo);
+
+        let holders = 0;
+        let mostHolders = 0;
+        const waiters = Array.from({ length: 5 }, async () => {
+            const store = new FileTokenStore(directory, { staleLockMs: 1000, lockTimeoutMs: 5000 });
+            const release = await store.lock(key);
+            mostHolders = Math.max(mostHolders, ++holders);
+            await sleep(50);
+            holders--;
+            await release();
+        });
+        await Promise.all(waiters);
+
+        assert.equal(mostHolders, 1);
+        assert.deepEqual(lockFiles(), []);
+    });
+
+    it('leaves a lock that another waiter broke and retook after the staleness check', async () => {
+        const key = nextKey();
+        const lockPath = path.join(directory, `${key}.lock`);
+        fs.writeFileSync(lockPath, '99999\n');
+        const longAgo = new Date(Date.now() - 60 * 1000);
+        fs.utimesSync(lockPath, longAgo, longAgo);
+        const staleStat = fs.statSync(lockPath);
+
+        // Another waiter breaks the stale lock and takes it before this one acts on its check
+        const winner = new FileTokenStore(directory, { staleLockMs: 1000 });
+        const release = await winner.lock(key);
+
+        const loser = new FileTokenStore(directory, { staleLockMs: 1000 });
+        await loser['breakStaleLock'](lockPath, staleStat);
+        assert.equal(fs.readFileSync(lockPath, 'utf8'), `${process.pid}\n`);
+        assert.deepEqual(lockFiles(), [`${key}.lock`]);
+
+        await release();
+    });
+});
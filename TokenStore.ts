@@ -0,0 +1,281 @@
+/**
+ * Token storage backends for OAuthTokenManager
+ * Implement TokenStore to keep tokens in a database, keychain or test double
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { StoredOAuthToken } from './OAuthTokenManager.js';
+import { OAuthTimeoutError } from './OAuthError.js';
+import { longestRequestMs, type RetryOptions } from './OAuthHttp.js';
+import { describeError, silentLogger, type OAuthLogger } from './OAuthLogger.js';
+import { decryptToken, encryptToken, isEncryptedEnvelope, resolveEncryptionSecret, type TokenEncryptionOptions } from './TokenEncryption.js';
+
+export interface TokenStore {
+    get(key: string): Promise<StoredOAuthToken | null>;  // null when nothing is stored under key
+    set(key: string, token: StoredOAuthToken): Promise<void>;
+    delete(key: string): Promise<void>;  // Deleting a missing key is not an error
+    list(): Promise<string[]>;  // Keys of all stored tokens
+    lock?(key: string): Promise<() => Promise<void>>;  // Optional cross-process lock - resolves with its release function
+}
+
+export interface FileTokenStoreOptions {
+    encryption?: TokenEncryptionOptions;  /** Encrypt tokens at rest - plaintext files are still readable */
+    lockTimeoutMs?: number;  /** Give up waiting for another process's lock after this long (default: the longest refresh retry allows, plus 30 seconds) */
+    staleLockMs?: number;  /** Break locks not renewed for this long, left by crashed processes (default: 30 seconds) - holders renew theirs */
+    retry?: RetryOptions | false;  /** Retry settings of the refreshes run under the lock - the default lockTimeoutMs outlasts them */
+    logger?: OAuthLogger;  /** Default: silent */
+}
+
+// Waiters outlast a refresh that uses every retry, plus the time to read and save the token
+const LOCK_TIMEOUT_MARGIN_MS = 30 * 1000;
+
+/**
+ * Stores each token as a JSON file in one directory, the key being the file name
+ * Files are created 0600 and the directory 0700 (ignored on Windows)
+ */
+export class FileTokenStore implements TokenStore {
+    private directory: string;
+    private encryptionSecret: Buffer | null;
+    private lockTimeout: number;
+    private staleLockAge: number;
+    private logger: OAuthLogger;
+
+    constructor(directory: string, options: FileTokenStoreOptions = {}) {
+        if (!directory)
+            throw new Error('FileTokenStore directory must be specified');
+        this.directory = directory;
+        this.lockTimeout = options.lockTimeoutMs || longestRequestMs(options.retry) + LOCK_TIMEOUT_MARGIN_MS;
+        this.staleLockAge = options.staleLockMs || 30 * 1000;
+        this.logger = options.logger || silentLogger;
+
+        // Resolve the secret up front so a missing key fails at startup rather than on first save
+        if (options.encryption) {
+            this.encryptionSecret = resolveEncryptionSecret(options.encryption);
+            if (!this.encryptionSecret)
+                throw new Error('Token encryption requested but no key was found in options, key file or environment');
+        } else {
+            this.encryptionSecret = null;
+        }
+    }
+
+    /**
+     * Map a key to its file, refusing keys that would escape the directory
+     */
+    filePath(key: string): string {
+        if (!key || key !== path.basename(key) || key === '.' || key === '..') {
+            throw new Error(`Invalid token key: ${key}`);
+        }
+        return path.join(this.directory, key);
+    }
+
+    async get(key: string): Promise<StoredOAuthToken | null> {
+        let tokenContent: string;
+        try {
+            tokenContent = await fs.promises.readFile(this.filePath(key), 'utf8');
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                this.logger.error(`Error reading stored token ${key}: ${describeError(error)}`);
+            }
+            return null;
+        }
+
+        let content: any;
+        try {
+            content = JSON.parse(tokenContent);
+        } catch {
+            // Never log the parser message - it quotes file content, which may be a token
+            this.logger.error(`Stored token ${key} is not valid JSON`);
+            return null;
+        }
+
+        try {
+            if (!isEncryptedEnvelope(content)) {
+                return content as StoredOAuthToken;  // Legacy plaintext file
+            }
+
+            // An encrypted file is readable with the default environment key even if encryption was not configured
+            const secret = this.encryptionSecret || resolveEncryptionSecret();
+            if (!secret) {
+                this.logger.error(`Stored token ${key} is encrypted but no encryption key is configured`);
+                return null;
+            }
+            return decryptToken(content, secret);
+        } catch (error) {
+            this.logger.error(`Error decrypting stored token ${key}: ${describeError(error)}`);
+            return null;
+        }
+    }
+
+    async set(key: string, token: StoredOAuthToken): Promise<void> {
+        const tokenPath = this.filePath(key);
+        const content = this.encryptionSecret ? encryptToken(token, this.encryptionSecret) : token;
+
+        // Ensure directory exists
+        await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+        // Write a private temporary file and rename it over the token, so readers in other
+        // processes see the old token or the new one - never a half-written file
+        const tempPath = `${tokenPath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+        try {
+            await fs.promises.writeFile(tempPath, JSON.stringify(content, null, 2), { encoding: 'utf8', mode: 0o600 });
+            await fs.promises.rename(tempPath, tokenPath);
+        } catch (error) {
+            await fs.promises.rm(tempPath, { force: true });
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.promises.rm(this.filePath(key), { force: true });
+    }
+
+    /**
+     * Advisory lock using an exclusively created '<key>.lock' file next to the token.
+     * The holder touches the file while it holds the lock - a refresh with retries can outlast
+     * staleLockMs, and a waiter breaking a live lock would redeem a rotating refresh token twice
+     */
+    async lock(key: string): Promise<() => Promise<void>> {
+        const lockPath = `${this.filePath(key)}.lock`;
+        const deadline = Date.now() + this.lockTimeout;
+        await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+        while (true) {
+            try {
+                const handle = await fs.promises.open(lockPath, 'wx', 0o600);
+                await handle.writeFile(`${process.pid}\n`);
+                await handle.close();
+
+                const heartbeat = setInterval(() => {
+                    const now = new Date();
+                    fs.promises.utimes(lockPath, now, now).catch(() => {});
+                }, Math.max(this.staleLockAge / 3, 100));
+                heartbeat.unref();
+                return async () => {
+                    clearInterval(heartbeat);
+                    await fs.promises.rm(lockPath, { force: true });
+                };
+            } catch (error: any) {
+                if (error.code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            // Break the lock if its owner stopped renewing it - it most likely crashed
+            try {
+                const lockStat = await fs.promises.stat(lockPath);
+                if (Date.now() - lockStat.mtimeMs > this.staleLockAge) {
+                    await this.breakStaleLock(lockPath, lockStat);
+                    continue;
+                }
+            } catch {
+                continue;  // Released between our open and stat
+            }
+
+            if (Date.now() >= deadline) {
+                throw new OAuthTimeoutError('refresh', `Timed out waiting for token lock: ${lockPath}`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+    }
+
+    /**
+     * Remove a lock found stale. Renaming it away first lets only one waiter take it; a waiter that
+     * took a lock renewed or recreated since its check puts it back
+     */
+    private async breakStaleLock(lockPath: string, stale: fs.Stats): Promise<void> {
+        const claimedPath = `${lockPath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.stale`;
+        try {
+            await fs.promises.rename(lockPath, claimedPath);
+        } catch {
+            return;  // Another waiter broke it first, or it was released
+        }
+
+        try {
+            const claimed = await fs.promises.stat(claimedPath);
+            if (claimed.ino !== stale.ino || claimed.mtimeMs !== stale.mtimeMs) {
+                await fs.promises.link(claimedPath, lockPath).catch(() => {});
+            } else {
+                this.logger.warn(`Breaking stale token lock ${lockPath}`);
+            }
+        } finally {
+            await fs.promises.rm(claimedPath, { force: true });
+        }
+    }
+
+    async list(): Promise<string[]> {
+        let entries: string[];
+        try {
+            entries = await fs.promises.readdir(this.directory);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        // The directory may hold other JSON (credentials, package.json) - only report token files
+        const keys: string[] = [];
+        for (const entry of entries.filter(name => name.endsWith('.json'))) {
+            try {
+                const content = JSON.parse(await fs.promises.readFile(path.join(this.directory, entry), 'utf8'));
+                if (isEncryptedEnvelope(content) || (content && typeof content === 'object' && 'access_token' in content)) {
+                    keys.push(entry);
+                }
+            } catch {
+                // Unreadable or not JSON - not ours
+            }
+        }
+        return keys;
+    }
+
+    /**
+     * Rewrite every stored token in the current format - encrypts legacy plaintext
+     * files when encryption is configured and tightens their permissions
+     * Returns the keys that were rewritten
+     */
+    async migrateTokenFiles(): Promise<string[]> {
+        const migrated: string[] = [];
+        for (const key of await this.list()) {
+            const token = await this.get(key);
+            if (token) {
+                await this.set(key, token);
+                migrated.push(key);
+            }
+        }
+        return migrated;
+    }
+}
+
+/**
+ * Keeps tokens in process memory - for tests and short-lived tools
+ */
+export class MemoryTokenStore implements TokenStore {
+    private tokens = new Map<string, StoredOAuthToken>();
+
+    async get(key: string): Promise<StoredOAuthToken | null> {
+        const token = this.tokens.get(key);
+        // Hand out copies so callers cannot mutate what is stored
+        return token ? { ...token } : null;
+    }
+
+    async set(key: string, token: StoredOAuthToken): Promise<void> {
+        this.tokens.set(key, { ...token });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.tokens.delete(key);
+    }
+
+    async list(): Promise<string[]> {
+        return [...this.tokens.keys()];
+    }
+}
+
+/**
+ * Migrate the token files in a directory to the encrypted format (or just fix permissions when no encryption is given)
+ */
+export async function migrateTokenFiles(directory: string, encryption?: TokenEncryptionOptions): Promise<string[]> {
+    return new FileTokenStore(directory, { encryption }).migrateTokenFiles();
+}
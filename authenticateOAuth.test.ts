@@ -0,0 +1,198 @@
+/**
+ * authenticateOAuth end to end against the mock authorization server - login, reuse, refresh,
+ * re-authorization, discovery, the device flow and client credentials
+ */
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { authenticateOAuth, authenticateOAuthOrThrow, type AuthenticateOAuthOptions } from './OAuthTokenManager.js';
+import { OAuthAccessDeniedError, OAuthCredentialsError } from './OAuthError.js';
+import { HeadlessBrowser, MockOAuthServer } from './testing.js';
+import { registerProvider } from './OAuthProviders.js';
+
+describe('authenticateOAuth', () => {
+    let server: MockOAuthServer;
+    let tokenDirectory: string;
+    let browser: HeadlessBrowser;
+
+    before(async () => {
+        server = await MockOAuthServer.start({ deviceInterval: 1 });
+        // The mock understands Google's access_type and include_granted_scopes - opt in as a Google-like server would
+        const host = new URL(server.issuer).host;
+        registerProvider({
+            name: 'mock',
+            scopeDelimiter: ' ',
+            offlineAccess: 'access_type',
+            incrementalAuthorization: true,
+            matches: (tokenUri) => tokenUri.host === host
+        });
+    });
+    after(() => server.close());
+
+    beforeEach(() => {
+        tokenDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'oauth-test-'));
+        browser = new HeadlessBrowser();
+        server.requests.length = 0;
+        Object.assign(server.options, { accessTokenLifetimeSeconds: 3600, consent: 'approve' });
+    });
+    afterEach(() => fs.rmSync(tokenDirectory, { recursive: true, force: true }));
+
+    const options = (overrides: Partial<AuthenticateOAuthOptions> = {}): AuthenticateOAuthOptions => ({
+        scope: 'read',
+        tokenDirectory,
+        timeoutSeconds: 10,
+        openBrowser: browser.open,
+        retry: { retries: 2, minDelayMs: 1, maxDelayMs: 5 },
+        ...overrides
+    });
+    const authorizations = () => server.requests.filter(request => request.endpoint === 'authorize');
+
+    it('logs in through the browser once and then reuses the stored token', async () => {
+        const first = await authenticateOAuthOrThrow(server.credentials(), options());
+        const second = await authenticateOAuthOrThrow(server.credentials(), options());
+
+        assert.equal(second.access_token, first.access_token);
+        assert.equal(authorizations().length, 1);
+        assert.equal(authorizations()[0].params.prompt, 'consent');
+        assert.equal(fs.readdirSync(tokenDirectory).length, 1);
+    });
+
+    it('refreshes an expiring token without the browser', async () => {
+        server.options.accessTokenLifetimeSeconds = 60;
+        const first = await authenticateOAuthOrThrow(server.credentials(), options());
+        const second = await authenticateOAuthOrThrow(server.credentials(), options());
+
+        assert.notEqual(second.access_token, first.access_token);
+        assert.equal(second.refresh_token, first.refresh_token);
+        assert.equal(authorizations().length, 1);
+    });
+
+    it('authorizes again when the refresh token was revoked', async () => {
+        server.options.accessTokenLifetimeSeconds = 60;
+        await authenticateOAuthOrThrow(server.credentials(), options());
+        server.revokeRefreshTokens();
+
+        const token = await authenticateOAuthOrThrow(server.credentials(), options());
+        assert.ok(token.access_token);
+        assert.equal(authorizations().length, 2);
+    });
+
+    it('extends a token stored for fewer scopes by incremental authorization', async () => {
+        await authenticateOAuthOrThrow(server.credentials(), options({ scope: 'read' }));
+        const token = await authenticateOAuthOrThrow(server.credentials(), options({ scope: 'read write' }));
+
+        assert.equal(token.scope, 'read write');
+        const [, incremental] = authorizations();
+        assert.equal(incremental.params.scope, 'read write');
+        assert.equal(incremental.params.include_granted_scopes, 'true');
+        assert.equal(authorizations().length, 2);
+        assert.equal(fs.readdirSync(tokenDirectory).length, 2);  // The narrower token keeps its own entry
+    });
+
+    it('switches between scope sets without asking again', async () => {
+        const narrower = await authenticateOAuthOrThrow(server.credentials(), options({ scope: 'read' }));
+        await authenticateOAuthOrThrow(server.credentials(), options({ scope: 'read write' }));
+        const token = await authenticateOAuthOrThrow(server.credentials(), options({ scope: 'read' }));
+
+        assert.equal(token.access_token, narrower.access_token);
+        assert.equal(authorizations().length, 2);
+    });
+
+    it('uses a token stored for a wider request', async () => {
+        const wider = await authenticateOAuthOrThrow(server.credentials(), options({ scope: 'read write' }));
+        const token = await authenticateOAuthOrThrow(server.credentials(), options({ scope: 'read' }));
+
+        assert.equal(token.access_token, wider.access_token);
+        assert.equal(authorizations().length, 1);
+        assert.equal(fs.readdirSync(tokenDirectory).length, 1);
+    });
+
+    it('does not ask again for scopes the user declined', async () => {
+        server.options.grantScope = () => 'read';
+        try {
+            for (let call = 0; call < 3; call++) {
+                const token = await authenticateOAuthOrThrow(server.credentials(), options({ scope: 'read write' }));
+                assert.equal(token.scope, 'read');
+            }
+            assert.equal(authorizations().length, 1);
+        } finally {
+            server.options.grantScope = undefined;
+        }
+    });
+
+    it('asks again for declined scopes when told to', async () => {
+        server.options.grantScope = () => 'read';
+        try {
+            await authenticateOAuthOrThrow(server.credentials(), options({ scope: 'read write' }));
+        } finally {
+            server.options.grantScope = undefined;
+        }
+        const token = await authenticateOAuthOrThrow(server.credentials(), options({ scope: 'read write', retryDeclinedScopes: true }));
+
+        assert.equal(token.scope, 'read write');
+        assert.equal(authorizations().length, 2);
+        assert.equal(authorizations()[1].params.include_granted_scopes, 'true');
+    });
+
+    it('discovers the endpoints from issuer credentials', async () => {
+        const { issuer, client_id, client_secret } = server.credentials();
+        const token = await authenticateOAuthOrThrow({ issuer, client_id, client_secret, redirect_uris: ['http://127.0.0.1:0/callback'] }, options());
+
+        assert.ok(token.access_token);
+        assert.ok(server.requests.some(request => request.endpoint === 'discovery'));
+    });
+
+    it('completes the device flow once the user approves', async () => {
+        const token = await authenticateOAuthOrThrow(server.credentials(), options({
+            flow: 'device',
+            onUserCode: (info) => void browser.visit(info.verificationUriComplete)
+        }));
+
+        assert.ok(token.access_token);
+        assert.equal(authorizations().length, 0);
+        assert.ok(server.requests.some(request => request.params.grant_type === 'urn:ietf:params:oauth:grant-type:device_code'));
+    });
+
+    it('authenticates a confidential client when requesting the device code', async () => {
+        const credentials = { ...server.credentials(), token_endpoint_auth_method: 'client_secret_basic' as const };
+        await authenticateOAuthOrThrow(credentials, options({
+            flow: 'device',
+            onUserCode: (info) => void browser.visit(info.verificationUriComplete)
+        }));
+
+        const deviceRequest = server.requests.find(request => request.endpoint === 'device' && request.params.scope !== undefined);
+        assert.equal(deviceRequest.clientAuthMethod, 'client_secret_basic');
+        assert.equal(deviceRequest.params.client_id, undefined);
+    });
+
+    it('throws OAuthAccessDeniedError when the device is denied', async () => {
+        await assert.rejects(authenticateOAuthOrThrow(server.credentials(), options({
+            flow: 'device',
+            onUserCode: () => server.denyDevice()
+        })), OAuthAccessDeniedError);
+    });
+
+    it('mints client credentials tokens without a refresh token', async () => {
+        const token = await authenticateOAuthOrThrow(server.credentials(), options({ flow: 'client_credentials' }));
+
+        assert.ok(token.access_token);
+        assert.equal(token.refresh_token, undefined);
+        assert.equal(server.requests.find(request => request.endpoint === 'token').params.grant_type, 'client_credentials');
+    });
+
+    it('names the bad fields of unusable credentials', async () => {
+        const { client_id, redirect_uris } = server.credentials();
+        const error = await authenticateOAuthOrThrow({ client_id, redirect_uris, token_uri: 'not a url' }, options()).catch(error => error);
+
+        assert.ok(error instanceof OAuthCredentialsError);
+        assert.deepEqual(error.fields.map((field: { field: string }) => field.field).sort(), ['auth_uri', 'token_uri']);
+    });
+
+    it('returns null instead of throwing', async () => {
+        server.options.consent = 'deny';
+        assert.equal(await authenticateOAuth(server.credentials(), options()), null);
+    });
+});
@@ -0,0 +1,316 @@
+#!/usr/bin/env node
+/**
+ * oauthsupport command-line tool
+ * Log in, then inspect, refresh, print and revoke the stored tokens from a shell
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { authenticateOAuthOrThrow, OAuthTokenManager, type OAuthCredentials } from './OAuthTokenManager.js';
+import { resolveOAuthCredentials } from './OAuthCredentialResolver.js';
+import { clientFromCredentials } from './OAuthClientAuth.js';
+import {
+    OAuthAuthenticationRequiredError,
+    OAuthCancelledError,
+    OAuthCredentialsError,
+    OAuthError,
+    OAuthInvalidGrantError,
+    OAuthNetworkError,
+    OAuthTimeoutError
+} from './OAuthError.js';
+import { describeError, silentLogger, type OAuthLogger } from './OAuthLogger.js';
+import type { TokenEncryptionOptions } from './TokenEncryption.js';
+
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;  // The provider refused, or anything unexpected
+const EXIT_USAGE = 2;  // Bad command line or credentials
+const EXIT_LOGIN_REQUIRED = 3;  // No usable token - run login
+const EXIT_UNAVAILABLE = 4;  // Network error or timeout - worth retrying
+const EXIT_CANCELLED = 130;  // Interrupted with Ctrl-C
+
+const USAGE = `Usage: oauthsupport <command> [options]
+
+Commands:
+  login     Authorize and store a token - reuses a stored token that is still usable
+  status    Show the stored token (exit ${EXIT_LOGIN_REQUIRED} if there is no valid one)
+  refresh   Refresh the stored token now
+  token     Print a valid access token, refreshing it if needed - for scripts and curl
+  revoke    Revoke the stored token at the provider and delete it
+  list      List the stored tokens
+
+Options:
+  -c, --credentials <source>     Credentials file, JSON text, or env: for OAUTH_* variables
+                                 (default: $OAUTH_CREDENTIALS, else credentials.json if present, else env:)
+  -k, --credentials-key <key>    Key the credentials are nested under, e.g. installed
+  -s, --scope <scopes>           Scopes, space or comma separated - required except for list
+  -a, --account <email>          Account to log in as and keep the token under
+  -d, --token-dir <dir>          Token directory (default: current directory)
+  -f, --token-file <name>        Token file name (default: oauth-token.json)
+      --key-file <file>          Encrypt token files with the secret in this file ($OAUTH_TOKEN_KEY also works)
+      --device                   login: use the device flow
+      --manual                   login: paste the code instead of running a local server
+      --force                    revoke: delete the local token even if revocation fails
+      --json                     Print JSON
+  -v, --verbose                  Log to stderr
+  -h, --help                     Show this help
+      --version                  Show the version
+
+Exit codes: ${EXIT_OK} ok, ${EXIT_ERROR} error, ${EXIT_USAGE} usage or credentials, ${EXIT_LOGIN_REQUIRED} login required, ${EXIT_UNAVAILABLE} network or timeout, ${EXIT_CANCELLED} cancelled`;
+
+const COMMANDS = ['login', 'status', 'refresh', 'token', 'revoke', 'list'];
+
+/**
+ * Command line problems - reported with the usage hint
+ */
+class UsageError extends Error {}
+
+type CliValues = ReturnType<typeof parseCommandLine>['values'];
+
+function parseCommandLine(args: string[]) {
+    return parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            'credentials': { type: 'string', short: 'c' },
+            'credentials-key': { type: 'string', short: 'k' },
+            'scope': { type: 'string', short: 's' },
+            'account': { type: 'string', short: 'a' },
+            'token-dir': { type: 'string', short: 'd' },
+            'token-file': { type: 'string', short: 'f' },
+            'key-file': { type: 'string' },
+            'device': { type: 'boolean' },
+            'manual': { type: 'boolean' },
+            'force': { type: 'boolean' },
+            'json': { type: 'boolean' },
+            'verbose': { type: 'boolean', short: 'v' },
+            'help': { type: 'boolean', short: 'h' },
+            'version': { type: 'boolean' }
+        }
+    });
+}
+
+// Logs go to stderr so stdout stays clean for tokens and JSON
+const stderrLogger: OAuthLogger = {
+    debug: (message) => console.error(message),
+    info: (message) => console.error(message),
+    warn: (message) => console.error(message),
+    error: (message) => console.error(message)
+};
+
+/**
+ * Print a result - JSON, or the human-readable lines
+ */
+function print(values: CliValues, data: object, lines: string[]): void {
+    console.log(values.json ? JSON.stringify(data, null, 2) : lines.join('\n'));
+}
+
+/**
+ * Map an error to the exit code scripts can act on
+ */
+function exitCodeFor(error: unknown): number {
+    if (error instanceof UsageError || error instanceof OAuthCredentialsError) {
+        return EXIT_USAGE;
+    }
+    if (error instanceof OAuthAuthenticationRequiredError || error instanceof OAuthInvalidGrantError) {
+        return EXIT_LOGIN_REQUIRED;
+    }
+    if (error instanceof OAuthNetworkError || error instanceof OAuthTimeoutError) {
+        return EXIT_UNAVAILABLE;
+    }
+    if (error instanceof OAuthCancelledError) {
+        return EXIT_CANCELLED;
+    }
+    return EXIT_ERROR;
+}
+
+function encryptionOptions(values: CliValues): TokenEncryptionOptions | undefined {
+    if (values['key-file']) {
+        return { keyFile: values['key-file'] };
+    }
+    return process.env.OAUTH_TOKEN_KEY ? {} : undefined;
+}
+
+/**
+ * The manager holding every token under the token directory and file name - the same place authenticateOAuth uses
+ */
+function baseManager(values: CliValues, logger: OAuthLogger): OAuthTokenManager {
+    return new OAuthTokenManager({
+        tokenDirectory: values['token-dir'] || process.cwd(),
+        tokenFileName: values['token-file'] || 'oauth-token.json',
+        encryption: encryptionOptions(values),
+        logger
+    });
+}
+
+/**
+ * Load the credentials and the manager for this client, account and scope
+ */
+async function openAccount(values: CliValues, logger: OAuthLogger): Promise<{ credentials: OAuthCredentials; manager: OAuthTokenManager }> {
+    if (!values.scope) {
+        throw new UsageError('--scope is required - tokens are stored per scope set');
+    }
+    const source = values.credentials || process.env.OAUTH_CREDENTIALS || (fs.existsSync('credentials.json') ? 'credentials.json' : 'env:');
+    const credentials = await resolveOAuthCredentials(source, { credentialsKey: values['credentials-key'], logger });
+
+    const manager = baseManager(values, logger).forAccount({ clientId: credentials.client_id, account: values.account, scope: values.scope });
+    await manager.adoptUnkeyedToken();
+    return { credentials, manager };
+}
+
+/**
+ * Describe the stored token - the same fields for status, login and refresh
+ */
+async function describeToken(manager: OAuthTokenManager): Promise<{ data: object; lines: string[]; valid: boolean }> {
+    const info = await manager.getTokenInfo();
+    const token = await manager.getStoredToken();
+    if (!info.exists) {
+        return { data: info, lines: ['No token stored - run oauthsupport login'], valid: false };
+    }
+
+    const expires = info.expiresAt
+        ? `${info.expiresAt.toISOString()} (${info.valid ? `in ${Math.round(info.expiresInSeconds / 60)} min` : 'expired'})`
+        : 'never';
+    const lines = [
+        `Token:          ${info.valid ? 'valid' : 'expired'}`,
+        `Expires:        ${expires}`,
+        `Refresh token:  ${info.hasRefreshToken ? 'yes' : 'no'}`
+    ];
+    if (info.identity) {
+        lines.push(`Account:        ${info.identity.email || info.identity.sub}`);
+    }
+    if (token?.scope) {
+        lines.push(`Scope:          ${token.scope}`);
+    }
+    return { data: { ...info, scope: token?.scope }, lines, valid: info.valid };
+}
+
+async function login(values: CliValues, logger: OAuthLogger): Promise<number> {
+    const { credentials, manager } = await openAccount(values, logger);
+
+    // First Ctrl-C stops the flow cleanly, a second one kills the process
+    const controller = new AbortController();
+    const onInterrupt = () => controller.abort();
+    process.once('SIGINT', onInterrupt);
+    try {
+        await authenticateOAuthOrThrow(credentials, {
+            scope: values.scope,
+            tokenDirectory: values['token-dir'] || process.cwd(),
+            tokenFileName: values['token-file'] || 'oauth-token.json',
+            encryption: encryptionOptions(values),
+            loginHint: values.account,
+            flow: values.device ? 'device' : 'browser',
+            manual: values.manual,
+            signal: controller.signal,
+            logger
+        });
+    } finally {
+        process.off('SIGINT', onInterrupt);
+    }
+
+    const { data, lines } = await describeToken(manager);
+    print(values, data, ['Logged in', ...lines]);
+    return EXIT_OK;
+}
+
+async function status(values: CliValues, logger: OAuthLogger): Promise<number> {
+    const { manager } = await openAccount(values, logger);
+    const { data, lines, valid } = await describeToken(manager);
+    print(values, data, lines);
+    return valid ? EXIT_OK : EXIT_LOGIN_REQUIRED;
+}
+
+async function refresh(values: CliValues, logger: OAuthLogger): Promise<number> {
+    const { credentials, manager } = await openAccount(values, logger);
+    await manager.forceRefreshOrThrow(clientFromCredentials(credentials));
+    const { data, lines } = await describeToken(manager);
+    print(values, data, ['Refreshed', ...lines]);
+    return EXIT_OK;
+}
+
+async function token(values: CliValues, logger: OAuthLogger): Promise<number> {
+    const { credentials, manager } = await openAccount(values, logger);
+    // Never starts a login - a script waiting on a browser would hang
+    const validToken = await manager.getValidTokenOrThrow(clientFromCredentials(credentials));
+    const expiresAt = (await manager.getStoredToken())?.expires_at;
+    print(values, {
+        access_token: validToken.access_token,
+        token_type: validToken.token_type,
+        expires_at: expiresAt ? new Date(expiresAt).toISOString() : undefined
+    }, [validToken.access_token]);
+    return EXIT_OK;
+}
+
+async function revoke(values: CliValues, logger: OAuthLogger): Promise<number> {
+    const { credentials, manager } = await openAccount(values, logger);
+    if (!await manager.hasStoredToken()) {
+        print(values, { revoked: false }, ['No token stored']);
+        return EXIT_OK;
+    }
+    await manager.logoutOrThrow(clientFromCredentials(credentials), { force: values.force });
+    print(values, { revoked: true }, ['Token revoked and deleted']);
+    return EXIT_OK;
+}
+
+async function list(values: CliValues, logger: OAuthLogger): Promise<number> {
+    const accounts = await baseManager(values, logger).listAccounts();
+    const lines = accounts.length === 0 ? ['No tokens stored'] : accounts.map(account => [
+        account.key,
+        account.account || '-',
+        account.expiresAt ? account.expiresAt.toISOString() : 'no expiry',
+        account.hasRefreshToken ? 'refreshable' : 'no refresh token',
+        account.scope || ''
+    ].join('  '));
+    print(values, accounts, lines);
+    return EXIT_OK;
+}
+
+const handlers: Record<string, (values: CliValues, logger: OAuthLogger) => Promise<number>> = { login, status, refresh, token, revoke, list };
+
+/**
+ * Run one command line - returns the exit code
+ */
+async function main(args: string[]): Promise<number> {
+    let values: CliValues;
+    let positionals: string[];
+    try {
+        ({ values, positionals } = parseCommandLine(args));
+    } catch (error) {
+        console.error(`oauthsupport: ${describeError(error)}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+
+    if (values.version) {
+        const packageJson = JSON.parse(fs.readFileSync(path.join(import.meta.dirname, 'package.json'), 'utf8'));
+        console.log(packageJson.version);
+        return EXIT_OK;
+    }
+    const [command, ...extra] = positionals;
+    if (values.help || !command) {
+        (values.help ? console.log : console.error)(USAGE);
+        return values.help ? EXIT_OK : EXIT_USAGE;
+    }
+
+    try {
+        if (!COMMANDS.includes(command)) {
+            throw new UsageError(`Unknown command: ${command}`);
+        }
+        if (extra.length > 0) {
+            throw new UsageError(`Unexpected argument: ${extra[0]}`);
+        }
+        return await handlers[command](values, values.verbose ? stderrLogger : silentLogger);
+    } catch (error) {
+        const code = exitCodeFor(error);
+        if (values.json) {
+            console.log(JSON.stringify(error instanceof OAuthError
+                ? { error: error.error, error_description: error.errorDescription, phase: error.phase }
+                : { error: code === EXIT_USAGE ? 'usage' : 'internal_error', error_description: describeError(error) }, null, 2));
+        } else {
+            const hint = code === EXIT_LOGIN_REQUIRED ? ' - run oauthsupport login' : error instanceof UsageError ? ' (see oauthsupport --help)' : '';
+            console.error(`oauthsupport: ${describeError(error)}${hint}`);
+        }
+        return code;
+    }
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -1,2 +1,55 @@
 import path from "path";
-export { authenticateOAuth, OAuthTokenManager, OAuthGetToken } from "./OAuthTokenManager.js";
+export { authenticateOAuth, authenticateOAuthOrThrow, OAuthTokenManager, OAuthGetToken, generatePKCE, generateState, normalizeScope, missingScopes } from "./OAuthTokenManager.js";
+export type {
+    OAuthToken,
+    StoredOAuthToken,
+    OAuthClient,
+    OAuthCredentials,
+    TokenSelector,
+    StoredAccount,
+    LogoutOptions,
+    TokenManagerOptions,
+    OAuthTokenManagerEvents,
+    AutoRefreshOptions,
+    OAuthGetTokenOptions,
+    AuthenticateOAuthOptions,
+    PKCEPair
+} from "./OAuthTokenManager.js";
+export type { RetryOptions } from "./OAuthHttp.js";
+export type { ClientAuthMethod, ClientAuthentication } from "./OAuthClientAuth.js";
+export { OAuthDeviceFlow } from "./OAuthDeviceFlow.js";
+export type { DeviceAuthorizationInfo, OAuthDeviceFlowOptions } from "./OAuthDeviceFlow.js";
+export { OAuthClientCredentialsGrant, OAuthJwtBearerGrant } from "./OAuthServiceAccount.js";
+export type { ServiceAccountKey, ClientCredentialsGrantOptions, JwtBearerGrantOptions } from "./OAuthServiceAccount.js";
+export { FileTokenStore, MemoryTokenStore, migrateTokenFiles } from "./TokenStore.js";
+export type { TokenStore, FileTokenStoreOptions } from "./TokenStore.js";
+export { encryptToken, decryptToken, isEncryptedEnvelope } from "./TokenEncryption.js";
+export type { TokenEncryptionOptions, EncryptedTokenEnvelope } from "./TokenEncryption.js";
+export {
+    OAuthError,
+    OAuthInvalidGrantError,
+    OAuthAccessDeniedError,
+    OAuthNetworkError,
+    OAuthTimeoutError,
+    OAuthCancelledError,
+    OAuthCredentialsError,
+    OAuthAuthenticationRequiredError,
+    OAuthInsufficientScopeError
+} from "./OAuthError.js";
+export type { OAuthErrorPhase, OAuthErrorDetails, CredentialsFieldError } from "./OAuthError.js";
+export { silentLogger } from "./OAuthLogger.js";
+export type { OAuthLogger } from "./OAuthLogger.js";
+export { systemClock } from "./OAuthClock.js";
+export type { OAuthClock } from "./OAuthClock.js";
+export { verifyIdToken, decodeIdToken, clearJwksCache } from "./OIDC.js";
+export type { IdTokenClaims, OAuthIdentity, IdTokenValidationOptions } from "./OIDC.js";
+export { discoverAuthorizationServer, credentialsFromIssuer, clearDiscoveryCache } from "./OAuthDiscovery.js";
+export type { AuthorizationServerMetadata, IssuerCredentials, DiscoveryOptions } from "./OAuthDiscovery.js";
+export { getProvider, registerProvider, credentialsForProvider } from "./OAuthProviders.js";
+export type { OAuthProvider, OAuthProviderOptions, ProviderCredentials, ProviderEndpoints } from "./OAuthProviders.js";
+export { createAuthorizedFetch } from "./OAuthFetch.js";
+export type { AuthorizedFetch, AuthorizedFetchOptions } from "./OAuthFetch.js";
+export { resolveOAuthCredentials, credentialsFromEnv, validateCredentials } from "./OAuthCredentialResolver.js";
+export type { CredentialsSource, CredentialsFlow, ResolveCredentialsOptions } from "./OAuthCredentialResolver.js";
+export { escapeHtml, renderTemplate } from "./OAuthPages.js";
+export type { CallbackPage, CallbackPageRenderer, CallbackPageVariables } from "./OAuthPages.js";
@@ -14,7 +14,8 @@ async function main() {
             tokenFileName: 'google-contacts-token.json',
             includeOfflineAccess: true,
             credentialsKey: 'installed',
-            maxTokenLifetimeHours: 720 // 30 days - user only needs to authenticate once a month
+            maxTokenLifetimeHours: 720, // 30 days - user only needs to authenticate once a month
+            logger: console // The library is silent by default
         });
 
         if (!token) {
@@ -0,0 +1,5 @@
+/**
+ * Test helpers - published as '@bobfrankston/oauthsupport/testing', so the main entry point does not load them
+ */
+export { MockOAuthServer, HeadlessBrowser } from "./OAuthMockServer.js";
+export type { MockOAuthServerOptions, MockOAuthClient, MockUser, MockEndpoint, MockFault, MockRequest, HeadlessPage } from "./OAuthMockServer.js";